@@ -1,45 +1,172 @@
-import { useState, useRef, useEffect } from "react";
-import { ArrowLeft, Phone, Video, MoreVertical, Send, Paperclip, Smile, Users, Image, X, Check, CheckCheck, Trash2 } from "lucide-react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import {
+  ArrowLeft,
+  Phone,
+  Video,
+  MoreVertical,
+  Send,
+  Paperclip,
+  Smile,
+  Users,
+  Pencil,
+  X,
+  Mic,
+  Images,
+  Upload,
+  Search,
+  ChevronUp,
+  ChevronDown,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Conversation } from "@/hooks/useConversations";
-import { Message, useMessages } from "@/hooks/useMessages";
-import { useAuth } from "@/contexts/AuthContext";
-import { useTypingIndicator } from "@/hooks/useTypingIndicator";
-import { useFileUpload } from "@/hooks/useFileUpload";
-import { EmojiPicker } from "./EmojiPicker";
-import { FilePreview, MessageAttachment } from "./FilePreview";
-import { format } from "date-fns";
-import { fr } from "date-fns/locale";
-import { supabase } from "@/integrations/supabase/client";
-import { useToast } from "@/hooks/use-toast";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Conversation, ConversationMember } from "@/hooks/useConversations";
+import { Message, useMessages } from "@/hooks/useMessages";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { useFileUpload } from "@/hooks/useFileUpload";
+import { useVoiceRecorder } from "@/hooks/useVoiceRecorder";
+import { getMediaItems, useConversationMedia } from "@/hooks/useConversationMedia";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { DataError, FILE_TOO_LARGE, UNREADABLE_IMAGE, UNSUPPORTED_FILE_TYPE, UPLOAD_RULES } from "@/lib/data";
+import { Mention, decodeMentions, encodeMentions, mentionQueryAt, mentionsToText } from "@/lib/mentions";
+import { MAX_ATTACHMENTS, MessageBody, albumKindOf } from "@/lib/messageKinds";
+import { MIN_SEARCH_LENGTH } from "@/lib/search";
+import { formatDuration } from "@/lib/utils";
+import { EmojiPicker } from "./EmojiPicker";
+import { FilePreview } from "./FilePreview";
+import { MessageBubble } from "./MessageBubble";
+import { MessageList, MessageListHandle } from "./MessageList";
+import { QuotedMessage } from "./QuotedMessage";
+import { DeleteMessageDialog } from "./DeleteMessageDialog";
+import { MessageInfoDialog } from "./MessageInfoDialog";
+import { MediaGallery } from "./MediaGallery";
+import { MediaViewer } from "./MediaViewer";
+import { MentionSuggestions } from "./MentionSuggestions";
+import { useToast } from "@/hooks/use-toast";
+
+// Same list as the accept attribute of the file input, which dropped and pasted files bypass
+const ACCEPTED_FILES = ["image/*", "video/*", ".pdf", ".doc", ".docx", ".txt"];
+
+const MAX_FILE_SIZE = UPLOAD_RULES["chat-attachments"].maxBytes;
+
+function isAcceptedFile(file: File) {
+  return ACCEPTED_FILES.some((accepted) =>
+    accepted.startsWith(".")
+      ? file.name.toLowerCase().endsWith(accepted)
+      : file.type.startsWith(accepted.replace("*", ""))
+  );
+}
+
+// The storage still rejects files whose content is not what their extension claims
+function sendErrorDescription(error: unknown, fallback: string) {
+  const { code } = error as DataError;
+  if (code === UNSUPPORTED_FILE_TYPE) return "Ce type de fichier n'est pas pris en charge";
+  if (code === FILE_TOO_LARGE) return "Ce fichier est trop volumineux";
+  if (code === UNREADABLE_IMAGE) return "Cette image ne peut pas être lue";
+  return fallback;
+}
+
+// Sliding this far left while holding the microphone cancels the recording
+const RECORD_CANCEL_DISTANCE = 100;
 
 interface ChatViewProps {
   conversation: Conversation;
+  // Message opened from the search results, jumped to when it belongs to this conversation
+  targetMessage?: { conversationId: string; messageId: string } | null;
   onBack: () => void;
 }
 
-export function ChatView({ conversation, onBack }: ChatViewProps) {
+export function ChatView({ conversation, targetMessage, onBack }: ChatViewProps) {
   const { user } = useAuth();
   const { toast } = useToast();
-  const { messages, sendMessage, loading, refetch } = useMessages(conversation.id);
-  const { typingUsers, startTyping, stopTyping } = useTypingIndicator(conversation.id);
-  const { uploadChatAttachment, uploading } = useFileUpload();
+  const {
+    messages,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessageForMe,
+    deleteMessageForEveryone,
+    toggleReaction,
+    markAsRead,
+    fetchEditHistory,
+    loading,
+    hasMore,
+    loadingOlder,
+    loadOlder,
+    hasNewer,
+    loadingNewer,
+    loadNewer,
+    jumpToMessage,
+    showLatest,
+  } = useMessages(conversation.id);
+  const { typingUsers, startTyping, stopTyping, startRecording, stopRecording } = useTypingIndicator(conversation.id);
+  const { uploadChatAttachments, uploading, fileProgress, cancelUpload } = useFileUpload();
+  const voiceRecorder = useVoiceRecorder();
   
   const [newMessage, setNewMessage] = useState("");
+  // Members picked from the suggestions, their @name becomes a mention token when sending
+  const [mentions, setMentions] = useState<Mention[]>([]);
+  // The @ being typed in a group, with the highlighted suggestion
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
   const [sending, setSending] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<Message | null>(null);
+  const [infoMessageId, setInfoMessageId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [jumpingToUnread, setJumpingToUnread] = useState(false);
+  const [recordCancelArmed, setRecordCancelArmed] = useState(false);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  // Photo or video shown in the media viewer
+  const [viewing, setViewing] = useState<{ messageId: string; index: number } | null>(null);
+  // Message opened from the media viewer or a search result, with the messages around it if it is not in the list
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  // Position in the hits, newest first, of the one last jumped to
+  const [searchIndex, setSearchIndex] = useState<number | null>(null);
+  const { hits: searchHits, searching } = useMessageSearch(searchOpen ? searchQuery : "", conversation.id);
+  const { media, links, documents, loading: mediaLoading } = useConversationMedia(
+    conversation.id,
+    galleryOpen || !!viewing
+  );
+  // Unread state captured when the conversation is opened, before it gets marked as read
+  const [unread, setUnread] = useState({
+    conversationId: conversation.id,
+    count: conversation.unread_count || 0,
+    firstMessageId: null as string | null,
+  });
+
+  if (unread.conversationId !== conversation.id) {
+    setUnread({
+      conversationId: conversation.id,
+      count: conversation.unread_count || 0,
+      firstMessageId: null,
+    });
+  }
+  const firstUnreadId = unread.firstMessageId;
   
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messageListRef = useRef<MessageListHandle>(null);
+  // Message whose surroundings are being loaded
+  const requestedJumpRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const recordStartXRef = useRef(0);
+  // dragenter and dragleave fire for every child crossed, the overlay stays until the pane is left
+  const dragDepthRef = useRef(0);
 
   const name = conversation.is_group
     ? conversation.name
@@ -50,29 +177,140 @@ export function ChatView({ conversation, onBack }: ChatViewProps) {
     : conversation.other_user?.avatar_url;
 
   const isOnline = !conversation.is_group && conversation.other_user?.is_online;
+  const recordingUsers = typingUsers.filter((u) => u.activity === "recording");
+  const showMic = !newMessage.trim() && selectedFiles.length === 0 && !editingMessage;
+  const canAttach = !editingMessage && !sending && !voiceRecorder.recording;
+
+  const mentionSuggestions = useMemo(() => {
+    if (!mentionQuery || !conversation.is_group) return [];
+
+    const fold = (text: string) => text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+    const query = fold(mentionQuery.query);
+    return (conversation.members || [])
+      .filter(
+        (m) =>
+          m.user_id !== user?.id &&
+          [m.profile.display_name, m.profile.username].some((name) => name && fold(name).includes(query))
+      )
+      .slice(0, 8);
+  }, [mentionQuery, conversation.is_group, conversation.members, user]);
+  const activeMention = Math.min(mentionIndex, mentionSuggestions.length - 1);
+
+  let searchStatus = "";
+  if (searchQuery.trim().length >= MIN_SEARCH_LENGTH) {
+    if (searchHits.length === 0) {
+      searchStatus = searching ? "Recherche..." : "Aucun résultat";
+    } else if (searchIndex === null) {
+      searchStatus = `${searchHits.length} résultat${searchHits.length > 1 ? "s" : ""}`;
+    } else {
+      searchStatus = `${searchIndex + 1} / ${searchHits.length}`;
+    }
+  }
+
+  // Media sent after the gallery was fetched, or still in the outbox, are viewed on their own
+  const viewerItems = useMemo(() => {
+    if (!viewing) return [];
+    if (media.some((m) => m.message.id === viewing.messageId)) return media;
+
+    const message = messages.find((m) => m.id === viewing.messageId);
+    return message ? getMediaItems(message) : [];
+  }, [viewing, media, messages]);
+  const viewerIndex = viewing
+    ? Math.max(
+        0,
+        viewerItems.findIndex((m) => m.message.id === viewing.messageId && m.index === viewing.index)
+      )
+    : null;
+
+  // Drop the pending reply or edit when switching conversations
+  useEffect(() => {
+    setReplyingTo(null);
+    setEditingMessage(null);
+    setJumpingToUnread(false);
+    setGalleryOpen(false);
+    setViewing(null);
+    setJumpTargetId(null);
+    setSearchOpen(false);
+    setSearchQuery("");
+    setSearchIndex(null);
+    setMentionQuery(null);
+  }, [conversation.id]);
+
+  // Declared after the reset above, which would otherwise drop the target when it opens the conversation
+  useEffect(() => {
+    if (targetMessage?.conversationId === conversation.id) {
+      setJumpTargetId(targetMessage.messageId);
+    }
+  }, [targetMessage, conversation.id]);
+
+  // The unread messages are the last ones received from others, get_inbox leaves deleted ones out of the count
+  useEffect(() => {
+    if (loading || unread.firstMessageId || unread.count === 0) return;
+
+    let remaining = unread.count;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.conversation_id !== unread.conversationId) return;
+      if (message.sender_id === user?.id || message.local_status || message.deleted_at) continue;
+      if (--remaining === 0) {
+        setUnread((prev) => ({ ...prev, firstMessageId: message.id }));
+        return;
+      }
+    }
+  }, [loading, messages, unread, user]);
+
+  // Load older pages until the first unread message is reached
+  useEffect(() => {
+    if (!jumpingToUnread) return;
+
+    if (firstUnreadId) {
+      messageListRef.current?.scrollToUnread();
+      setJumpingToUnread(false);
+    } else if (!hasMore) {
+      setJumpingToUnread(false);
+    } else if (!loadingOlder) {
+      loadOlder();
+    }
+  }, [jumpingToUnread, firstUnreadId, hasMore, loadingOlder, loadOlder]);
 
+  // Others see "enregistre un audio..." for as long as the microphone is on
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    if (!voiceRecorder.recording) return;
+
+    startRecording();
+    return () => {
+      stopRecording();
+    };
+  }, [voiceRecorder.recording, startRecording, stopRecording]);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
 
-  // Mark messages as read
+  // Mark messages as read while the conversation is visible
   useEffect(() => {
-    if (!user || !conversation.id) return;
-
-    const markAsRead = async () => {
-      await supabase
-        .from("messages")
-        .update({ is_read: true })
-        .eq("conversation_id", conversation.id)
-        .neq("sender_id", user.id)
-        .eq("is_read", false);
+    if (!document.hidden) {
+      markAsRead();
+    }
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden) markAsRead();
     };
 
-    markAsRead();
-  }, [messages, user, conversation.id]);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [markAsRead]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setNewMessage(e.target.value);
+    setMentionQuery(
+      conversation.is_group ? mentionQueryAt(e.target.value, e.target.selectionStart ?? e.target.value.length) : null
+    );
+    setMentionIndex(0);
     if (e.target.value) {
       startTyping();
     } else {
@@ -81,38 +319,45 @@ export function ChatView({ conversation, onBack }: ChatViewProps) {
   };
 
   const handleSend = async () => {
-    if ((!newMessage.trim() && !selectedFile) || sending) return;
+    if (editingMessage) {
+      await handleSaveEdit();
+      return;
+    }
+
+    if ((!newMessage.trim() && selectedFiles.length === 0) || sending) return;
 
     setSending(true);
     stopTyping();
 
     try {
-      let fileUrl: string | undefined;
-      let fileName: string | undefined;
-      let messageType = "text";
+      const text = encodeMentions(newMessage.trim(), mentions);
+      let body: MessageBody = { kind: "text", text };
 
-      if (selectedFile) {
-        const { data, error } = await uploadChatAttachment(selectedFile);
+      // The typed text becomes the caption of the album
+      if (selectedFiles.length > 0) {
+        const { data, error } = await uploadChatAttachments(selectedFiles);
         if (error) throw error;
-        
-        fileUrl = data?.url;
-        fileName = data?.fileName;
-        messageType = selectedFile.type.startsWith("image/") ? "image" : "file";
+
+        // Files cancelled during the upload are left out of the album
+        if (data.length > 0) {
+          const kind = albumKindOf(data.map((a) => ({ type: a.mime_type || "" })));
+          body = { kind, attachments: data, caption: text || null };
+        } else if (!text) {
+          return;
+        }
       }
 
-      await sendMessage(
-        newMessage.trim() || (fileName || "Fichier"),
-        messageType,
-        fileUrl,
-        fileName
-      );
+      const { error } = await sendMessage(body, replyingTo?.id);
+      if (error) throw error;
 
       setNewMessage("");
-      setSelectedFile(null);
+      setMentions([]);
+      setSelectedFiles([]);
+      setReplyingTo(null);
     } catch (error) {
       toast({
         title: "Erreur",
-        description: "Impossible d'envoyer le message",
+        description: sendErrorDescription(error, "Impossible d'envoyer le message"),
         variant: "destructive",
       });
     } finally {
@@ -120,33 +365,280 @@ export function ChatView({ conversation, onBack }: ChatViewProps) {
     }
   };
 
+  const handleRecordStart = async (e: React.PointerEvent<HTMLButtonElement>) => {
+    // Keeps receiving the pointer events when the finger slides off the button
+    e.currentTarget.setPointerCapture(e.pointerId);
+    recordStartXRef.current = e.clientX;
+    setRecordCancelArmed(false);
+
+    const { error } = await voiceRecorder.start();
+    if (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible d'accéder au micro",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRecordMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    setRecordCancelArmed(recordStartXRef.current - e.clientX > RECORD_CANCEL_DISTANCE);
+  };
+
+  const handleRecordEnd = async (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (recordStartXRef.current - e.clientX > RECORD_CANCEL_DISTANCE) {
+      voiceRecorder.cancel();
+      setRecordCancelArmed(false);
+      return;
+    }
+
+    const recording = await voiceRecorder.stop();
+    if (!recording) {
+      toast({
+        title: "Maintenez pour enregistrer",
+        description: "Relâchez le micro pour envoyer la note vocale",
+      });
+      return;
+    }
+
+    setSending(true);
+
+    try {
+      const { data, error } = await uploadChatAttachments([recording.file]);
+      if (error) throw error;
+      if (data.length === 0) return;
+
+      const attachment = { ...data[0], duration_ms: recording.durationMs, waveform: recording.waveform };
+      const { error: sendError } = await sendMessage(
+        { kind: "audio", attachments: [attachment], caption: null },
+        replyingTo?.id
+      );
+      if (sendError) throw sendError;
+
+      setReplyingTo(null);
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: sendErrorDescription(error, "Impossible d'envoyer la note vocale"),
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRetry = async (message: Message) => {
+    const { error } = await retryMessage(message);
+    if (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible d'envoyer le message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    const content = encodeMentions(newMessage.trim(), mentions);
+    if (!editingMessage || !content || sending) return;
+
+    if (content === editingMessage.content) {
+      cancelEdit();
+      return;
+    }
+
+    setSending(true);
+    stopTyping();
+
+    const { error } = await editMessage(editingMessage.id, content);
+
+    if (error) {
+      const expired = "hint" in error && error.hint === "edit_window_expired";
+      toast({
+        title: "Erreur",
+        description: expired
+          ? "Ce message ne peut plus être modifié"
+          : "Impossible de modifier le message",
+        variant: "destructive",
+      });
+    } else {
+      setNewMessage("");
+      setMentions([]);
+      setEditingMessage(null);
+    }
+    setSending(false);
+  };
+
+  const handleEdit = (message: Message) => {
+    setReplyingTo(null);
+    setSelectedFiles([]);
+    setEditingMessage(message);
+    // The composer shows mentions as @name
+    const { text, mentions } = decodeMentions(message.content || "");
+    setNewMessage(text);
+    setMentions(mentions);
+    inputRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage("");
+    setMentions([]);
+  };
+
+  // Replaces the @ being typed with the member's name
+  const insertMention = (member: ConversationMember) => {
+    if (!mentionQuery) return;
+
+    const name = member.profile.display_name || member.profile.username || "Utilisateur";
+    const before = `${newMessage.slice(0, mentionQuery.start)}@${name} `;
+    setNewMessage(before + newMessage.slice(mentionQuery.start + 1 + mentionQuery.query.length));
+    setMentions((prev) => [...prev.filter((m) => m.userId !== member.user_id), { userId: member.user_id, name }]);
+    setMentionQuery(null);
+
+    // Caret right after the inserted name, once the input shows it
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (mentionSuggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setMentionIndex((activeMention + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(mentionSuggestions[activeMention]);
+        return;
+      }
+      if (e.key === "Escape") {
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === "Escape" && editingMessage) {
+      cancelEdit();
+      return;
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
     }
   };
 
+  // Picked, dropped and pasted files all go through the same checks before being previewed
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
+
+    if (!files.every(isAcceptedFile)) {
+      toast({
+        title: "Type de fichier non pris en charge",
+        description: "Vous pouvez envoyer des photos, des vidéos, des PDF, des documents Word et des fichiers texte",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (files.some((file) => file.size > MAX_FILE_SIZE)) {
+      toast({
+        title: "Fichier trop volumineux",
+        description: `La taille maximale est de ${MAX_FILE_SIZE / (1024 * 1024)} Mo par fichier`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedFiles.length + files.length > MAX_ATTACHMENTS) {
+      toast({
+        title: "Trop de fichiers",
+        description: `Vous pouvez envoyer jusqu'à ${MAX_ATTACHMENTS} fichiers à la fois`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSelectedFiles((prev) => [...prev, ...files]);
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 10 * 1024 * 1024) {
-        toast({
-          title: "Fichier trop volumineux",
-          description: "La taille maximale est de 10 Mo",
-          variant: "destructive",
-        });
-        return;
-      }
-      setSelectedFile(file);
+    const files = Array.from(e.target.files || []);
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+    addFiles(files);
+  };
+
+  // Screenshots and copied files are attached, text pastes as usual
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0 || !canAttach) return;
+
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes("Files");
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+
+    e.preventDefault();
+    dragDepthRef.current++;
+    setDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setDraggingFiles(false);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+
+    // Required for the drop event to fire
+    e.preventDefault();
+    e.dataTransfer.dropEffect = canAttach ? "copy" : "none";
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setDraggingFiles(false);
+    if (canAttach) addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const clearComposerReferences = (message: Message) => {
+    if (replyingTo?.id === message.id) setReplyingTo(null);
+    if (editingMessage?.id === message.id) cancelEdit();
+  };
+
+  const handleDeleteForMe = async (message: Message) => {
+    clearComposerReferences(message);
+    const { error } = await deleteMessageForMe(message.id);
+
+    if (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible de supprimer le message",
+        variant: "destructive",
+      });
     }
   };
 
-  const handleDeleteMessage = async (messageId: string) => {
-    const { error } = await supabase
-      .from("messages")
-      .delete()
-      .eq("id", messageId);
+  const handleDeleteForEveryone = async (message: Message) => {
+    clearComposerReferences(message);
+    const { error } = await deleteMessageForEveryone(message);
 
     if (error) {
       toast({
@@ -154,17 +646,122 @@ export function ChatView({ conversation, onBack }: ChatViewProps) {
         description: "Impossible de supprimer le message",
         variant: "destructive",
       });
-    } else {
-      refetch();
     }
   };
 
+  const handleReact = async (messageId: string, emoji: string) => {
+    const { error } = await toggleReaction(messageId, emoji);
+
+    if (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible d'ajouter la réaction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReply = (message: Message) => {
+    if (editingMessage) cancelEdit();
+    setReplyingTo(message);
+    inputRef.current?.focus();
+  };
+
+  const scrollToMessage = useCallback(
+    (messageId: string) => {
+      if (!messageListRef.current?.scrollToMessage(messageId)) {
+        toast({
+          description: "Le message d'origine n'est plus disponible",
+        });
+        return;
+      }
+
+      setHighlightedId(messageId);
+
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+      highlightTimeoutRef.current = setTimeout(() => setHighlightedId(null), 1500);
+    },
+    [toast]
+  );
+
+  // Scroll to the message opened from the media viewer or a search result, once it is loaded
+  useEffect(() => {
+    if (!jumpTargetId || loading) return;
+
+    if (messages.some((m) => m.id === jumpTargetId)) {
+      setJumpTargetId(null);
+      scrollToMessage(jumpTargetId);
+    } else if (requestedJumpRef.current !== jumpTargetId) {
+      requestedJumpRef.current = jumpTargetId;
+      jumpToMessage(jumpTargetId).then((found) => {
+        requestedJumpRef.current = null;
+        if (found) return;
+        setJumpTargetId(null);
+        scrollToMessage(jumpTargetId);
+      });
+    }
+  }, [jumpTargetId, loading, messages, jumpToMessage, scrollToMessage]);
+
+  const goToSearchHit = (index: number) => {
+    if (index < 0 || index >= searchHits.length) return;
+
+    setSearchIndex(index);
+    setJumpTargetId(searchHits[index].id);
+  };
+
+  // Up goes back in time, like scrolling
+  const goToOlderHit = () => goToSearchHit(searchIndex === null ? 0 : searchIndex + 1);
+  const goToNewerHit = () => goToSearchHit(searchIndex === null ? 0 : searchIndex - 1);
+
+  const closeSearch = () => {
+    setSearchOpen(false);
+    setSearchQuery("");
+    setSearchIndex(null);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (e.shiftKey) {
+        goToNewerHit();
+      } else {
+        goToOlderHit();
+      }
+    } else if (e.key === "Escape") {
+      closeSearch();
+    }
+  };
+
+  const handleGoToMessage = (messageId: string) => {
+    setViewing(null);
+    setGalleryOpen(false);
+    setJumpTargetId(messageId);
+  };
+
   const handleEmojiSelect = (emoji: string) => {
     setNewMessage((prev) => prev + emoji);
   };
 
   return (
-    <div className="flex flex-col h-full bg-background">
+    <div
+      className="relative flex flex-col h-full bg-background"
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      {/* Drop Overlay */}
+      {draggingFiles && (
+        <div className="absolute inset-2 z-40 flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-primary bg-background/90 pointer-events-none">
+          <Upload className="w-10 h-10 text-primary" />
+          <p className="font-medium text-foreground">
+            {canAttach ? "Déposez les fichiers ici" : "Impossible de joindre des fichiers pour le moment"}
+          </p>
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex items-center gap-3 p-4 border-b border-border glass">
         <Button variant="ghost" size="icon" onClick={onBack} className="md:hidden">
@@ -190,7 +787,11 @@ export function ChatView({ conversation, onBack }: ChatViewProps) {
         <div className="flex-1 min-w-0">
           <h2 className="font-semibold text-foreground truncate">{name}</h2>
           <p className="text-xs text-muted-foreground">
-            {typingUsers.length > 0 ? (
+            {recordingUsers.length > 0 ? (
+              <span className="text-primary animate-pulse">
+                {recordingUsers.map((u) => u.display_name).join(", ")} enregistre un audio...
+              </span>
+            ) : typingUsers.length > 0 ? (
               <span className="text-primary animate-pulse">
                 {typingUsers.map((u) => u.display_name).join(", ")} écrit...
               </span>
@@ -211,65 +812,188 @@ export function ChatView({ conversation, onBack }: ChatViewProps) {
           <Button variant="ghost" size="icon" className="hidden sm:flex">
             <Video className="w-5 h-5" />
           </Button>
-          <Button variant="ghost" size="icon">
-            <MoreVertical className="w-5 h-5" />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => (searchOpen ? closeSearch() : setSearchOpen(true))}
+            aria-label="Rechercher dans la discussion"
+          >
+            <Search className="w-5 h-5" />
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <MoreVertical className="w-5 h-5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setGalleryOpen(true)}>
+                <Images className="w-4 h-4 mr-2" />
+                Médias, liens et documents
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-hide">
-        {loading ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="animate-pulse text-muted-foreground">Chargement...</div>
+      {/* Search */}
+      {searchOpen && (
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-border">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              autoFocus
+              placeholder="Rechercher dans la discussion..."
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setSearchIndex(null);
+              }}
+              onKeyDown={handleSearchKeyDown}
+              className="pl-9 bg-secondary border-0"
+            />
           </div>
-        ) : messages.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
-            <p>Aucun message</p>
-            <p className="text-sm">Envoyez le premier message !</p>
+          <span className="text-xs text-muted-foreground tabular-nums shrink-0">{searchStatus}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={goToOlderHit}
+            disabled={searchIndex === null ? searchHits.length === 0 : searchIndex >= searchHits.length - 1}
+            aria-label="Résultat précédent"
+          >
+            <ChevronUp className="w-5 h-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={goToNewerHit}
+            disabled={searchIndex === null || searchIndex === 0}
+            aria-label="Résultat suivant"
+          >
+            <ChevronDown className="w-5 h-5" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={closeSearch} aria-label="Fermer la recherche">
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+      )}
+
+      {/* Messages */}
+      {loading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-pulse text-muted-foreground">Chargement...</div>
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-muted-foreground">
+          <p>Aucun message</p>
+          <p className="text-sm">Envoyez le premier message !</p>
+        </div>
+      ) : (
+        <MessageList
+          key={conversation.id}
+          ref={messageListRef}
+          messages={messages}
+          currentUserId={user?.id}
+          hasMore={hasMore}
+          loadingOlder={loadingOlder}
+          onLoadOlder={loadOlder}
+          hasNewer={hasNewer}
+          loadingNewer={loadingNewer}
+          onLoadNewer={loadNewer}
+          onShowLatest={showLatest}
+          firstUnreadId={firstUnreadId}
+          unreadCount={unread.count}
+          onJumpToUnread={() => setJumpingToUnread(true)}
+          renderMessage={(message, index) => (
+            <MessageBubble
+              message={message}
+              isOwn={message.sender_id === user?.id}
+              showAvatar={
+                conversation.is_group &&
+                message.sender_id !== user?.id &&
+                (index === 0 || messages[index - 1]?.sender_id !== message.sender_id)
+              }
+              isHighlighted={highlightedId === message.id}
+              onReply={() => handleReply(message)}
+              onEdit={() => handleEdit(message)}
+              onDelete={() =>
+                message.local_status ? discardMessage(message.id) : setDeletingMessage(message)
+              }
+              onReact={(emoji) => handleReact(message.id, emoji)}
+              onShowInfo={() => setInfoMessageId(message.id)}
+              onQuoteClick={scrollToMessage}
+              onOpenMedia={(index) => setViewing({ messageId: message.id, index })}
+              onLoadEditHistory={fetchEditHistory}
+              onRetry={() => handleRetry(message)}
+            />
+          )}
+        />
+      )}
+
+      {/* Reply Preview */}
+      {replyingTo && (
+        <div className="px-4 py-2 border-t border-border">
+          <QuotedMessage
+            message={replyingTo}
+            onClick={() => scrollToMessage(replyingTo.id)}
+            onRemove={() => setReplyingTo(null)}
+          />
+        </div>
+      )}
+
+      {/* Edit Preview */}
+      {editingMessage && (
+        <div className="px-4 py-2 border-t border-border">
+          <div className="flex items-center gap-2 pl-3 pr-2 py-1.5 rounded-lg border-l-4 border-primary bg-secondary">
+            <Pencil className="w-4 h-4 text-primary shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-semibold text-primary">Modifier le message</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {editingMessage.content && mentionsToText(editingMessage.content)}
+              </p>
+            </div>
+            <Button size="icon" variant="ghost" className="w-6 h-6 shrink-0" onClick={cancelEdit}>
+              <X className="w-4 h-4" />
+            </Button>
           </div>
-        ) : (
-          <>
-            {messages.map((message, index) => (
-              <MessageBubble
-                key={message.id}
-                message={message}
-                isOwn={message.sender_id === user?.id}
-                showAvatar={
-                  conversation.is_group &&
-                  message.sender_id !== user?.id &&
-                  (index === 0 || messages[index - 1]?.sender_id !== message.sender_id)
-                }
-                onDelete={() => handleDeleteMessage(message.id)}
-              />
-            ))}
-            <div ref={messagesEndRef} />
-          </>
-        )}
-      </div>
+        </div>
+      )}
 
       {/* File Preview */}
-      {selectedFile && (
-        <div className="px-4 py-2 border-t border-border">
-          <FilePreview file={selectedFile} onRemove={() => setSelectedFile(null)} />
+      {selectedFiles.length > 0 && (
+        <div className="px-4 pt-4 pb-2 border-t border-border flex gap-4 overflow-x-auto">
+          {selectedFiles.map((file, index) => (
+            <FilePreview
+              key={`${file.name}-${file.lastModified}-${index}`}
+              file={file}
+              progress={uploading ? fileProgress.get(file) : undefined}
+              onRemove={() => {
+                cancelUpload(file);
+                setSelectedFiles((prev) => prev.filter((f) => f !== file));
+              }}
+            />
+          ))}
         </div>
       )}
 
       {/* Input */}
-      <div className="p-4 border-t border-border glass">
+      <div className="relative p-4 border-t border-border glass">
+        <MentionSuggestions members={mentionSuggestions} activeIndex={activeMention} onSelect={insertMention} />
         <div className="flex items-center gap-2">
           <input
             ref={fileInputRef}
             type="file"
             onChange={handleFileSelect}
+            multiple
             className="hidden"
-            accept="image/*,.pdf,.doc,.docx,.txt"
+            accept={ACCEPTED_FILES.join(",")}
           />
           <Button 
             variant="ghost" 
             size="icon" 
             className="shrink-0"
             onClick={() => fileInputRef.current?.click()}
+            disabled={!canAttach}
           >
             <Paperclip className="w-5 h-5" />
           </Button>
@@ -291,118 +1015,87 @@ export function ChatView({ conversation, onBack }: ChatViewProps) {
             )}
           </div>
           
-          <Input
-            value={newMessage}
-            onChange={handleInputChange}
-            onKeyPress={handleKeyPress}
-            placeholder="Écrivez un message..."
-            className="flex-1 bg-secondary border-0"
-          />
-          <Button
-            size="icon"
-            onClick={handleSend}
-            disabled={(!newMessage.trim() && !selectedFile) || sending || uploading}
-            className="shrink-0 gradient-primary"
-          >
-            <Send className="w-5 h-5" />
-          </Button>
-        </div>
-      </div>
-    </div>
-  );
-}
-
-function MessageBubble({
-  message,
-  isOwn,
-  showAvatar,
-  onDelete,
-}: {
-  message: Message;
-  isOwn: boolean;
-  showAvatar: boolean;
-  onDelete: () => void;
-}) {
-  const time = format(new Date(message.created_at), "HH:mm", { locale: fr });
-  const hasAttachment = message.file_url && (message.message_type === "image" || message.message_type === "file");
-
-  return (
-    <div
-      className={`flex items-end gap-2 animate-fade-in group ${isOwn ? "flex-row-reverse" : ""}`}
-    >
-      {showAvatar ? (
-        <Avatar className="w-8 h-8">
-          <AvatarImage src={message.sender?.avatar_url || undefined} />
-          <AvatarFallback className="bg-primary/10 text-primary text-xs">
-            {message.sender?.display_name?.charAt(0) || "?"}
-          </AvatarFallback>
-        </Avatar>
-      ) : (
-        <div className="w-8" />
-      )}
-
-      <div className="relative">
-        {isOwn && (
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="absolute -left-8 top-1/2 -translate-y-1/2 w-6 h-6 opacity-0 group-hover:opacity-100 transition-opacity"
-              >
-                <MoreVertical className="w-4 h-4" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent>
-              <DropdownMenuItem onClick={onDelete} className="text-destructive">
-                <Trash2 className="w-4 h-4 mr-2" />
-                Supprimer
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-        )}
-
-        <div
-          className={`max-w-[70%] px-4 py-2 rounded-2xl ${
-            isOwn
-              ? "bg-chat-sent text-chat-sent-foreground rounded-br-sm"
-              : "bg-chat-received text-chat-received-foreground rounded-bl-sm"
-          }`}
-        >
-          {showAvatar && message.sender?.display_name && (
-            <p className="text-xs font-semibold mb-1 opacity-70">
-              {message.sender.display_name}
-            </p>
-          )}
-          
-          {hasAttachment && (
-            <MessageAttachment
-              fileUrl={message.file_url!}
-              fileName={message.file_name || "Fichier"}
-              messageType={message.message_type}
+          {voiceRecorder.recording ? (
+            <div className="flex-1 flex items-center gap-2 h-10 px-3 rounded-md bg-secondary text-sm">
+              <span className="w-2.5 h-2.5 rounded-full bg-destructive animate-pulse" />
+              <span className="tabular-nums">{formatDuration(voiceRecorder.elapsedMs / 1000)}</span>
+              <span className={`ml-auto ${recordCancelArmed ? "text-destructive" : "text-muted-foreground"}`}>
+                {recordCancelArmed ? "Relâchez pour annuler" : "‹ Glissez pour annuler"}
+              </span>
+            </div>
+          ) : (
+            <Input
+              ref={inputRef}
+              value={newMessage}
+              onChange={handleInputChange}
+              onKeyDown={handleKeyPress}
+              onBlur={() => setMentionQuery(null)}
+              onPaste={handlePaste}
+              placeholder="Écrivez un message..."
+              className="flex-1 bg-secondary border-0"
             />
           )}
-          
-          {message.content && message.message_type === "text" && (
-            <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+          {showMic ? (
+            <Button
+              size="icon"
+              onPointerDown={handleRecordStart}
+              onPointerMove={handleRecordMove}
+              onPointerUp={handleRecordEnd}
+              onPointerCancel={() => voiceRecorder.cancel()}
+              onContextMenu={(e) => e.preventDefault()}
+              disabled={sending}
+              className={`shrink-0 gradient-primary touch-none transition-transform ${
+                voiceRecorder.recording ? "scale-125" : ""
+              }`}
+              title="Maintenez pour enregistrer"
+            >
+              <Mic className="w-5 h-5" />
+            </Button>
+          ) : (
+            <Button
+              size="icon"
+              onClick={handleSend}
+              disabled={(!newMessage.trim() && selectedFiles.length === 0) || sending || uploading}
+              className="shrink-0 gradient-primary"
+            >
+              <Send className="w-5 h-5" />
+            </Button>
           )}
-          
-          <div className={`flex items-center gap-1 mt-1 ${isOwn ? "justify-end" : ""}`}>
-            <p className={`text-[10px] ${isOwn ? "opacity-70" : "opacity-50"}`}>
-              {time}
-            </p>
-            {isOwn && (
-              <span className="opacity-70">
-                {message.is_read ? (
-                  <CheckCheck className="w-3 h-3" />
-                ) : (
-                  <Check className="w-3 h-3" />
-                )}
-              </span>
-            )}
-          </div>
         </div>
       </div>
+
+      {/* Delete Message Dialog */}
+      <DeleteMessageDialog
+        message={deletingMessage}
+        isOwn={deletingMessage?.sender_id === user?.id}
+        onClose={() => setDeletingMessage(null)}
+        onDeleteForMe={handleDeleteForMe}
+        onDeleteForEveryone={handleDeleteForEveryone}
+      />
+
+      {/* Message Info Dialog */}
+      <MessageInfoDialog
+        message={messages.find((m) => m.id === infoMessageId) || null}
+        members={conversation.members || []}
+        onClose={() => setInfoMessageId(null)}
+      />
+
+      <MediaGallery
+        open={galleryOpen}
+        onOpenChange={setGalleryOpen}
+        media={media}
+        links={links}
+        documents={documents}
+        loading={mediaLoading}
+        onOpenMedia={(index) => setViewing({ messageId: media[index].message.id, index: media[index].index })}
+      />
+
+      <MediaViewer
+        items={viewerItems}
+        startIndex={viewerIndex}
+        onClose={() => setViewing(null)}
+        onGoToMessage={handleGoToMessage}
+      />
     </div>
   );
 }
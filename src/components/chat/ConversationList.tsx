@@ -4,6 +4,11 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Conversation } from "@/hooks/useConversations";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { MIN_SEARCH_LENGTH } from "@/lib/search";
+import { MessagePreview } from "./MessageContent";
+import { MessageSearchResults } from "./MessageSearchResults";
+import { UnreadBadge } from "./UnreadBadge";
 import { formatDistanceToNow } from "date-fns";
 import { fr } from "date-fns/locale";
 
@@ -11,6 +16,8 @@ interface ConversationListProps {
   conversations: Conversation[];
   selectedId: string | null;
   onSelect: (id: string) => void;
+  // Opens the conversation on a message found by the search
+  onSelectMessage: (conversationId: string, messageId: string) => void;
   onNewChat: () => void;
 }
 
@@ -18,9 +25,12 @@ export function ConversationList({
   conversations,
   selectedId,
   onSelect,
+  onSelectMessage,
   onNewChat,
 }: ConversationListProps) {
   const [search, setSearch] = useState("");
+  const searchingMessages = search.trim().length >= MIN_SEARCH_LENGTH;
+  const { hits, searching } = useMessageSearch(search);
 
   const filteredConversations = conversations.filter((conv) => {
     const name = conv.is_group
@@ -47,7 +57,7 @@ export function ConversationList({
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
-            placeholder="Rechercher..."
+            placeholder="Rechercher une discussion ou un message..."
             value={search}
             onChange={(e) => setSearch(e.target.value)}
             className="pl-9 bg-secondary border-0"
@@ -57,7 +67,7 @@ export function ConversationList({
 
       {/* Conversations */}
       <div className="flex-1 overflow-y-auto scrollbar-hide">
-        {filteredConversations.length === 0 ? (
+        {filteredConversations.length === 0 && !searchingMessages ? (
           <div className="flex flex-col items-center justify-center h-full text-muted-foreground p-4">
             <MessageCircle className="w-12 h-12 mb-2 opacity-50" />
             <p className="text-sm text-center">Aucune conversation</p>
@@ -66,14 +76,27 @@ export function ConversationList({
             </Button>
           </div>
         ) : (
-          filteredConversations.map((conv) => (
-            <ConversationItem
-              key={conv.id}
-              conversation={conv}
-              isSelected={selectedId === conv.id}
-              onClick={() => onSelect(conv.id)}
-            />
-          ))
+          <>
+            {searchingMessages && filteredConversations.length > 0 && (
+              <h3 className="px-4 pt-4 pb-2 text-sm font-semibold text-primary">Discussions</h3>
+            )}
+            {filteredConversations.map((conv) => (
+              <ConversationItem
+                key={conv.id}
+                conversation={conv}
+                isSelected={selectedId === conv.id}
+                onClick={() => onSelect(conv.id)}
+              />
+            ))}
+            {searchingMessages && (
+              <MessageSearchResults
+                hits={hits}
+                conversations={conversations}
+                searching={searching}
+                onSelect={onSelectMessage}
+              />
+            )}
+          </>
         )}
       </div>
     </div>
@@ -98,6 +121,9 @@ function ConversationItem({
     : conversation.other_user?.avatar_url;
 
   const isOnline = !conversation.is_group && conversation.other_user?.is_online;
+  const unreadCount = conversation.unread_count || 0;
+  const hasUnread = unreadCount > 0 && !isSelected;
+  const hasUnreadMention = (conversation.unread_mention_count || 0) > 0 && !isSelected;
 
   const lastMessage = conversation.last_message;
   const timeAgo = lastMessage
@@ -129,20 +155,40 @@ function ConversationItem({
 
       <div className="flex-1 min-w-0 text-left">
         <div className="flex items-center justify-between">
-          <span className="font-semibold text-foreground truncate">{name}</span>
+          <span className={`text-foreground truncate ${hasUnread ? "font-bold" : "font-semibold"}`}>
+            {name}
+          </span>
           {timeAgo && (
-            <span className="text-xs text-muted-foreground ml-2 shrink-0">
+            <span
+              className={`text-xs ml-2 shrink-0 ${
+                hasUnread ? "text-primary font-semibold" : "text-muted-foreground"
+              }`}
+            >
               {timeAgo}
             </span>
           )}
         </div>
-        {lastMessage && (
-          <p className="text-sm text-muted-foreground truncate">
-            {lastMessage.message_type === "text"
-              ? lastMessage.content
-              : "📎 Fichier partagé"}
-          </p>
-        )}
+        <div className="flex items-center gap-2">
+          {lastMessage && (
+            <p
+              className={`flex-1 text-sm truncate ${
+                hasUnread ? "text-foreground font-medium" : "text-muted-foreground"
+              }`}
+            >
+              {hasUnreadMention && <span className="text-primary font-semibold">@ vous a mentionné · </span>}
+              {lastMessage.deleted_at ? "🚫 Message supprimé" : <MessagePreview message={lastMessage} />}
+            </p>
+          )}
+          {hasUnreadMention && (
+            <span
+              title="Vous avez été mentionné"
+              className="ml-auto w-5 h-5 shrink-0 rounded-full bg-primary text-primary-foreground text-[11px] font-semibold flex items-center justify-center"
+            >
+              @
+            </span>
+          )}
+          {hasUnread && <UnreadBadge count={unreadCount} className={hasUnreadMention ? "" : "ml-auto"} />}
+        </div>
       </div>
     </button>
   );
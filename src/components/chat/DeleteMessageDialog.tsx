@@ -0,0 +1,67 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Message } from "@/hooks/useMessages";
+
+interface DeleteMessageDialogProps {
+  message: Message | null;
+  isOwn: boolean;
+  onClose: () => void;
+  onDeleteForMe: (message: Message) => void;
+  onDeleteForEveryone: (message: Message) => void;
+}
+
+export function DeleteMessageDialog({
+  message,
+  isOwn,
+  onClose,
+  onDeleteForMe,
+  onDeleteForEveryone,
+}: DeleteMessageDialogProps) {
+  const canDeleteForEveryone = isOwn && !message?.deleted_at;
+
+  return (
+    <AlertDialog open={!!message} onOpenChange={(o) => !o && onClose()}>
+      <AlertDialogContent className="sm:max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Supprimer le message ?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {canDeleteForEveryone
+              ? "Vous pouvez supprimer ce message pour tout le monde ou uniquement pour vous."
+              : "Ce message sera supprimé uniquement pour vous."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="flex-col sm:flex-col gap-2 sm:space-x-0">
+          {canDeleteForEveryone && (
+            <Button
+              variant="destructive"
+              onClick={() => {
+                onDeleteForEveryone(message!);
+                onClose();
+              }}
+            >
+              Supprimer pour tous
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => {
+              onDeleteForMe(message!);
+              onClose();
+            }}
+          >
+            Supprimer pour moi
+          </Button>
+          <AlertDialogCancel className="mt-0">Annuler</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
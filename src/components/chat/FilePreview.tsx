@@ -1,17 +1,40 @@
-import { X, FileText, Image as ImageIcon, File } from "lucide-react";
+import { CSSProperties, ReactNode, useEffect, useState } from "react";
+import { X, FileText, Image as ImageIcon, File, Video } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useSignedUrl } from "@/hooks/useSignedUrl";
+import { AttachmentInfo } from "@/lib/data";
+import { AttachmentKind } from "@/lib/messageKinds";
+import { VideoPlayer } from "./VideoPlayer";
+import { VoicePlayer } from "./VoicePlayer";
 
 interface FilePreviewProps {
   file: File;
+  // Set while the file is uploading or queued, removing it then cancels the upload
+  progress?: number;
   onRemove: () => void;
 }
 
-export function FilePreview({ file, onRemove }: FilePreviewProps) {
+export function FilePreview({ file, progress, onRemove }: FilePreviewProps) {
+  const isUploading = progress !== undefined;
+
   const isImage = file.type.startsWith("image/");
-  const previewUrl = isImage ? URL.createObjectURL(file) : null;
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  // One blob URL per file, the upload progress re-renders the preview many times
+  useEffect(() => {
+    if (!isImage) return;
+
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setPreviewUrl(null);
+    };
+  }, [file, isImage]);
 
   return (
-    <div className="relative inline-flex items-center gap-2 p-2 bg-secondary rounded-lg animate-scale-in">
+    <div className="relative inline-flex shrink-0 items-center gap-2 p-2 bg-secondary rounded-lg animate-scale-in">
       {isImage && previewUrl ? (
         <img
           src={previewUrl}
@@ -20,7 +43,9 @@ export function FilePreview({ file, onRemove }: FilePreviewProps) {
         />
       ) : (
         <div className="w-16 h-16 flex items-center justify-center bg-muted rounded">
-          {file.type.includes("pdf") ? (
+          {file.type.startsWith("video/") ? (
+            <Video className="w-8 h-8 text-muted-foreground" />
+          ) : file.type.includes("pdf") ? (
             <FileText className="w-8 h-8 text-muted-foreground" />
           ) : (
             <File className="w-8 h-8 text-muted-foreground" />
@@ -29,15 +54,23 @@ export function FilePreview({ file, onRemove }: FilePreviewProps) {
       )}
       <div className="flex-1 min-w-0">
         <p className="text-sm font-medium truncate max-w-[150px]">{file.name}</p>
-        <p className="text-xs text-muted-foreground">
-          {(file.size / 1024).toFixed(1)} KB
-        </p>
+        {isUploading ? (
+          <div className="flex items-center gap-2 w-[150px]">
+            <Progress value={progress} className="h-1.5 flex-1" />
+            <span className="text-xs text-muted-foreground tabular-nums">{progress}%</span>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {(file.size / 1024).toFixed(1)} KB
+          </p>
+        )}
       </div>
       <Button
         size="icon"
         variant="ghost"
         className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-destructive text-destructive-foreground hover:bg-destructive/90"
         onClick={onRemove}
+        title={isUploading ? "Annuler l'envoi" : "Retirer"}
       >
         <X className="w-3 h-3" />
       </Button>
@@ -46,26 +79,169 @@ export function FilePreview({ file, onRemove }: FilePreviewProps) {
 }
 
 interface MessageAttachmentProps {
-  fileUrl: string;
-  fileName: string;
-  messageType: string;
+  attachments: AttachmentInfo[];
+  kind: AttachmentKind;
+  // Opens the photo at this position in the media viewer, instead of its raw URL in a new tab
+  onOpen?: (index: number) => void;
 }
 
-export function MessageAttachment({ fileUrl, fileName, messageType }: MessageAttachmentProps) {
-  const isImage = messageType === "image";
+// Image albums show at most this many tiles, the last one counting the photos left out
+const ALBUM_TILES = 4;
+
+export function MessageAttachment({ attachments, kind, onOpen }: MessageAttachmentProps) {
+  if (kind === "image" && attachments.length > 1) {
+    return <ImageAlbum attachments={attachments} onOpen={onOpen} />;
+  }
+
+  return (
+    <div className="space-y-1">
+      {attachments.map((attachment, index) => (
+        <AttachmentItem
+          key={`${attachment.url}-${index}`}
+          attachment={attachment}
+          kind={kind}
+          onOpen={onOpen && (() => onOpen(index))}
+        />
+      ))}
+    </div>
+  );
+}
 
-  if (isImage) {
+// Opens the media viewer when there is one, the raw file in a new tab otherwise
+function MediaLink({
+  attachment,
+  onOpen,
+  className,
+  children,
+}: {
+  attachment: AttachmentInfo;
+  onOpen?: () => void;
+  className?: string;
+  children: ReactNode;
+}) {
+  const href = useSignedUrl("chat-attachments", onOpen ? null : attachment.url);
+
+  if (onOpen) {
     return (
-      <a href={fileUrl} target="_blank" rel="noopener noreferrer">
+      <button type="button" onClick={onOpen} className={`text-left ${className || ""}`}>
+        {children}
+      </button>
+    );
+  }
+
+  return (
+    <a href={href} target="_blank" rel="noopener noreferrer" className={className}>
+      {children}
+    </a>
+  );
+}
+
+function ImageAlbum({ attachments, onOpen }: { attachments: AttachmentInfo[]; onOpen?: (index: number) => void }) {
+  const tiles = attachments.slice(0, ALBUM_TILES);
+  const remaining = attachments.length - tiles.length;
+
+  return (
+    <div className="grid grid-cols-2 gap-1 w-[250px]">
+      {tiles.map((attachment, index) => {
+        // An odd album of three opens with a wide tile
+        const wide = tiles.length === 3 && index === 0;
+        const isLast = index === tiles.length - 1;
+
+        return (
+          <MediaLink
+            key={`${attachment.url}-${index}`}
+            attachment={attachment}
+            onOpen={onOpen && (() => onOpen(index))}
+            className={`relative block ${wide ? "col-span-2 aspect-[2/1]" : "aspect-square"}`}
+          >
+            <ProgressiveImage
+              attachment={attachment}
+              alt={attachment.file_name || "Photo"}
+              className="w-full h-full rounded-md hover:opacity-90 transition-opacity"
+            />
+            {isLast && remaining > 0 && (
+              <span className="absolute inset-0 flex items-center justify-center rounded-md bg-black/50 text-white text-xl font-semibold">
+                +{remaining}
+              </span>
+            )}
+          </MediaLink>
+        );
+      })}
+    </div>
+  );
+}
+
+// Shows the blurred placeholder until the full image has loaded
+function ProgressiveImage({
+  attachment,
+  alt,
+  className = "",
+  style,
+}: {
+  attachment: AttachmentInfo;
+  alt: string;
+  className?: string;
+  style?: CSSProperties;
+}) {
+  const [loaded, setLoaded] = useState(false);
+  const src = useSignedUrl("chat-attachments", attachment.url);
+
+  return (
+    <div className={`relative overflow-hidden ${className}`} style={style}>
+      {attachment.placeholder && !loaded && (
         <img
-          src={fileUrl}
+          src={attachment.placeholder}
+          alt=""
+          aria-hidden
+          className="absolute inset-0 w-full h-full object-cover blur-md scale-110"
+        />
+      )}
+      <img
+        src={src}
+        alt={alt}
+        onLoad={() => setLoaded(true)}
+        onError={() => setLoaded(true)}
+        className={`block w-full h-full object-cover transition-opacity ${loaded ? "opacity-100" : "opacity-0"}`}
+      />
+    </div>
+  );
+}
+
+function AttachmentItem({
+  attachment,
+  kind,
+  onOpen,
+}: {
+  attachment: AttachmentInfo;
+  kind: AttachmentKind;
+  onOpen?: () => void;
+}) {
+  const { url, width, height } = attachment;
+  const fileName = attachment.file_name || "Fichier";
+  // Photos and videos resolve their own URLs
+  const fileUrl = useSignedUrl("chat-attachments", kind === "audio" || kind === "file" ? url : null);
+
+  if (kind === "image") {
+    return (
+      <MediaLink attachment={attachment} onOpen={onOpen} className="block">
+        <ProgressiveImage
+          attachment={attachment}
           alt={fileName}
-          className="max-w-[250px] max-h-[300px] rounded-lg object-cover cursor-pointer hover:opacity-90 transition-opacity"
+          className="max-w-[250px] max-h-[300px] rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
+          style={width && height ? { aspectRatio: `${width} / ${height}`, width: 250 } : undefined}
         />
-      </a>
+      </MediaLink>
     );
   }
 
+  if (kind === "video") {
+    return <VideoPlayer attachment={attachment} />;
+  }
+
+  if (kind === "audio") {
+    return <VoicePlayer src={fileUrl} durationMs={attachment.duration_ms} waveform={attachment.waveform} />;
+  }
+
   return (
     <a
       href={fileUrl}
@@ -73,8 +249,13 @@ export function MessageAttachment({ fileUrl, fileName, messageType }: MessageAtt
       rel="noopener noreferrer"
       className="flex items-center gap-2 p-2 bg-background/20 rounded-lg hover:bg-background/30 transition-colors"
     >
-      <FileText className="w-5 h-5" />
-      <span className="text-sm truncate max-w-[200px]">{fileName}</span>
+      <FileText className="w-5 h-5 shrink-0" />
+      <div className="min-w-0">
+        <p className="text-sm truncate max-w-[200px]">{fileName}</p>
+        {attachment.size_bytes != null && (
+          <p className="text-xs opacity-70">{(attachment.size_bytes / 1024).toFixed(1)} KB</p>
+        )}
+      </div>
     </a>
   );
 }
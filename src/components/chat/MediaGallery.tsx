@@ -0,0 +1,167 @@
+import { ReactNode } from "react";
+import { FileText, Link2, Mic, Play } from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DocumentItem, LinkItem, MediaItem } from "@/hooks/useConversationMedia";
+import { useSignedUrl } from "@/hooks/useSignedUrl";
+import { formatDuration } from "@/lib/utils";
+
+interface MediaGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  media: MediaItem[];
+  links: LinkItem[];
+  documents: DocumentItem[];
+  loading: boolean;
+  // Index in media of the tile that was clicked
+  onOpenMedia: (index: number) => void;
+}
+
+const formatDate = (date: string) => format(new Date(date), "d MMM yyyy", { locale: fr });
+
+function hostnameOf(url: string) {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+function EmptyState({ loading, children }: { loading: boolean; children: ReactNode }) {
+  return <div className="text-center text-muted-foreground py-8">{loading ? "Chargement..." : children}</div>;
+}
+
+function MediaTile({ item, onOpen }: { item: MediaItem; onOpen: () => void }) {
+  const { attachment } = item;
+  const signedUrl = useSignedUrl("chat-attachments", item.kind === "video" ? attachment.poster_url : attachment.url);
+  const thumbnail = signedUrl || (item.kind === "video" ? attachment.placeholder : null);
+
+  return (
+    <button
+      onClick={onOpen}
+      className="relative aspect-square rounded-md overflow-hidden bg-muted hover:opacity-90 transition-opacity"
+    >
+      {thumbnail && (
+        <img src={thumbnail} alt={attachment.file_name || ""} loading="lazy" className="w-full h-full object-cover" />
+      )}
+      {item.kind === "video" && (
+        <span className="absolute bottom-1 left-1 flex items-center gap-0.5 text-xs font-medium text-white drop-shadow">
+          <Play className="w-3 h-3" fill="currentColor" />
+          {attachment.duration_ms != null && formatDuration(attachment.duration_ms / 1000)}
+        </span>
+      )}
+    </button>
+  );
+}
+
+function DocumentRow({ message, attachment }: DocumentItem) {
+  const href = useSignedUrl("chat-attachments", attachment.url);
+  const Icon = attachment.mime_type?.startsWith("audio/") ? Mic : FileText;
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-3 p-2 rounded-lg hover:bg-accent transition-colors"
+    >
+      <div className="w-10 h-10 rounded-md bg-primary/10 text-primary flex items-center justify-center shrink-0">
+        <Icon className="w-5 h-5" />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium truncate">{attachment.file_name || "Fichier"}</p>
+        <p className="text-xs text-muted-foreground">
+          {attachment.size_bytes != null && `${(attachment.size_bytes / 1024).toFixed(1)} KB · `}
+          {formatDate(message.created_at)}
+        </p>
+      </div>
+    </a>
+  );
+}
+
+export function MediaGallery({ open, onOpenChange, media, links, documents, loading, onOpenMedia }: MediaGalleryProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md p-0 flex flex-col gap-0">
+        <SheetHeader className="p-4 border-b border-border">
+          <SheetTitle>Médias, liens et documents</SheetTitle>
+        </SheetHeader>
+
+        <Tabs defaultValue="media" className="flex-1 min-h-0 flex flex-col">
+          <TabsList className="mx-4 mt-4">
+            <TabsTrigger value="media" className="flex-1">
+              Médias
+            </TabsTrigger>
+            <TabsTrigger value="links" className="flex-1">
+              Liens
+            </TabsTrigger>
+            <TabsTrigger value="documents" className="flex-1">
+              Documents
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="media" className="flex-1 overflow-y-auto scrollbar-hide mt-0 p-4">
+            {media.length === 0 ? (
+              <EmptyState loading={loading}>Aucun média</EmptyState>
+            ) : (
+              <div className="grid grid-cols-3 gap-1">
+                {/* Newest first, while the viewer swipes in reading order */}
+                {media
+                  .map((item, index) => ({ item, index }))
+                  .reverse()
+                  .map(({ item, index }) => (
+                    <MediaTile
+                      key={`${item.message.id}-${item.index}`}
+                      item={item}
+                      onOpen={() => onOpenMedia(index)}
+                    />
+                  ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="links" className="flex-1 overflow-y-auto scrollbar-hide mt-0 p-4">
+            {links.length === 0 ? (
+              <EmptyState loading={loading}>Aucun lien</EmptyState>
+            ) : (
+              <div className="space-y-1">
+                {links.map(({ message, url }) => (
+                  <a
+                    key={`${message.id}-${url}`}
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-3 p-2 rounded-lg hover:bg-accent transition-colors"
+                  >
+                    <div className="w-10 h-10 rounded-md bg-primary/10 text-primary flex items-center justify-center shrink-0">
+                      <Link2 className="w-5 h-5" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">{hostnameOf(url)}</p>
+                      <p className="text-xs text-muted-foreground truncate">{url}</p>
+                    </div>
+                    <span className="text-xs text-muted-foreground shrink-0">{formatDate(message.created_at)}</span>
+                  </a>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="documents" className="flex-1 overflow-y-auto scrollbar-hide mt-0 p-4">
+            {documents.length === 0 ? (
+              <EmptyState loading={loading}>Aucun document</EmptyState>
+            ) : (
+              <div className="space-y-1">
+                {documents.map((document, index) => (
+                  <DocumentRow key={`${document.message.id}-${index}`} {...document} />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Download, MessageSquare, ZoomIn, ZoomOut } from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { MediaItem } from "@/hooks/useConversationMedia";
+import { useSignedUrl } from "@/hooks/useSignedUrl";
+import { useAuth } from "@/contexts/AuthContext";
+import { getMessageBody } from "@/lib/messageKinds";
+
+interface MediaViewerProps {
+  items: MediaItem[];
+  // Index of the item shown when opening, the viewer is closed when null
+  startIndex: number | null;
+  onClose: () => void;
+  onGoToMessage: (messageId: string) => void;
+}
+
+// The download attribute is ignored for files on another origin, so the file is fetched first
+async function download(url: string, file_name: string | null) {
+  try {
+    const response = await fetch(url);
+    const href = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = href;
+    link.download = file_name || "media";
+    link.click();
+    URL.revokeObjectURL(href);
+  } catch {
+    window.open(url, "_blank", "noopener,noreferrer");
+  }
+}
+
+function MediaSlide({
+  media,
+  active,
+  zoomed,
+  onToggleZoom,
+}: {
+  media: MediaItem;
+  active: boolean;
+  zoomed: boolean;
+  onToggleZoom: () => void;
+}) {
+  const src = useSignedUrl("chat-attachments", media.attachment.url);
+  const poster = useSignedUrl("chat-attachments", media.attachment.poster_url);
+
+  // Only the video on screen keeps playing
+  if (media.kind === "video") {
+    return (
+      <video
+        src={src}
+        poster={poster}
+        controls
+        playsInline
+        ref={(video) => {
+          if (video && !active) video.pause();
+        }}
+        className="max-w-full max-h-full"
+      />
+    );
+  }
+
+  return (
+    <div className={`w-full h-full flex ${zoomed && active ? "overflow-auto" : "items-center justify-center"}`}>
+      <img
+        src={src}
+        alt={media.attachment.file_name || "Photo"}
+        onDoubleClick={onToggleZoom}
+        className={
+          zoomed && active
+            ? "max-w-none w-[200%] m-auto cursor-zoom-out"
+            : "max-w-full max-h-full object-contain cursor-zoom-in"
+        }
+      />
+    </div>
+  );
+}
+
+export function MediaViewer({ items, startIndex, onClose, onGoToMessage }: MediaViewerProps) {
+  const { user } = useAuth();
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(startIndex ?? 0);
+  const [zoomed, setZoomed] = useState(false);
+  const zoomedRef = useRef(zoomed);
+  zoomedRef.current = zoomed;
+
+  // Panning a zoomed photo must not swipe to the next one. Read through a ref, changing the
+  // options would reinitialise the carousel back to its start index.
+  const options = useMemo(
+    () => ({ startIndex: startIndex ?? 0, watchDrag: () => !zoomedRef.current }),
+    [startIndex]
+  );
+
+  useEffect(() => {
+    setCurrent(startIndex ?? 0);
+    setZoomed(false);
+  }, [startIndex]);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => {
+      setCurrent(api.selectedScrollSnap());
+      setZoomed(false);
+    };
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  const item = items[current];
+  const itemUrl = useSignedUrl("chat-attachments", item?.attachment.url);
+  const body = item && getMessageBody(item.message);
+  const caption = body && "caption" in body ? body.caption : null;
+  const sender =
+    item?.message.sender_id === user?.id
+      ? "Vous"
+      : item?.message.sender?.display_name || item?.message.sender?.username || "Utilisateur";
+
+  return (
+    <Dialog open={startIndex !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-none w-screen h-[100dvh] p-0 gap-0 border-0 bg-black text-white sm:rounded-none flex flex-col [&>button:last-child]:text-white [&>button:last-child]:top-5">
+        <div className="flex items-center gap-2 px-4 py-3 pr-12 bg-black/60">
+          <div className="flex-1 min-w-0">
+            <DialogTitle className="text-sm font-semibold truncate">{item ? sender : "Médias"}</DialogTitle>
+            {item && (
+              <p className="text-xs text-white/70">
+                {format(new Date(item.message.created_at), "d MMMM 'à' HH:mm", { locale: fr })}
+                {items.length > 1 && ` · ${current + 1} / ${items.length}`}
+              </p>
+            )}
+          </div>
+
+          {item?.kind === "image" && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="text-white hover:bg-white/10 hover:text-white"
+              onClick={() => setZoomed((z) => !z)}
+              aria-label={zoomed ? "Dézoomer" : "Zoomer"}
+            >
+              {zoomed ? <ZoomOut className="w-5 h-5" /> : <ZoomIn className="w-5 h-5" />}
+            </Button>
+          )}
+          {item && (
+            <>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="text-white hover:bg-white/10 hover:text-white"
+                onClick={() => itemUrl && download(itemUrl, item.attachment.file_name)}
+                disabled={!itemUrl}
+                aria-label="Télécharger"
+              >
+                <Download className="w-5 h-5" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="text-white hover:bg-white/10 hover:text-white"
+                onClick={() => onGoToMessage(item.message.id)}
+                aria-label="Aller au message"
+                title="Aller au message"
+              >
+                <MessageSquare className="w-5 h-5" />
+              </Button>
+            </>
+          )}
+        </div>
+
+        {startIndex !== null && (
+          <Carousel setApi={setApi} opts={options} className="flex-1 min-h-0 [&>div]:h-full">
+            <CarouselContent className="h-full">
+              {items.map((media, index) => (
+                <CarouselItem
+                  key={`${media.message.id}-${media.index}`}
+                  className="h-full flex items-center justify-center"
+                >
+                  <MediaSlide
+                    media={media}
+                    active={index === current}
+                    zoomed={zoomed}
+                    onToggleZoom={() => setZoomed((z) => !z)}
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            <CarouselPrevious className="left-4 bg-black/50 border-0 text-white hover:bg-black/70 hover:text-white" />
+            <CarouselNext className="right-4 bg-black/50 border-0 text-white hover:bg-black/70 hover:text-white" />
+          </Carousel>
+        )}
+
+        {caption && (
+          <p className="px-4 py-3 text-sm text-center whitespace-pre-wrap break-words bg-black/60">{caption}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ConversationMember } from "@/hooks/useConversations";
+
+interface MentionSuggestionsProps {
+  members: ConversationMember[];
+  activeIndex: number;
+  onSelect: (member: ConversationMember) => void;
+}
+
+// Group members matching the @ being typed in the composer, picked with a click or the keyboard
+export function MentionSuggestions({ members, activeIndex, onSelect }: MentionSuggestionsProps) {
+  if (members.length === 0) return null;
+
+  return (
+    <ul
+      role="listbox"
+      className="absolute bottom-full left-4 right-4 mb-1 max-h-60 overflow-y-auto rounded-lg border border-border bg-popover py-1 shadow-lg z-10"
+    >
+      {members.map((member, index) => {
+        const { profile } = member;
+        const name = profile.display_name || profile.username || "Utilisateur";
+
+        return (
+          <li key={member.user_id} role="option" aria-selected={index === activeIndex}>
+            {/* Pressing keeps the focus, and the caret, in the composer */}
+            <button
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(member)}
+              className={`w-full px-3 py-2 flex items-center gap-3 text-left hover:bg-accent/50 ${
+                index === activeIndex ? "bg-accent" : ""
+              }`}
+            >
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={profile.avatar_url || undefined} />
+                <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                  {name.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{name}</p>
+                {profile.username && profile.display_name && (
+                  <p className="text-xs text-muted-foreground truncate">@{profile.username}</p>
+                )}
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState, useRef, useCallback } from "react";
+import {
+  MoreVertical,
+  Check,
+  CheckCheck,
+  Trash2,
+  Reply,
+  Pencil,
+  Ban,
+  SmilePlus,
+  Info,
+  Clock,
+  AlertCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Message, MessageEdit, MessageStatus, canEditMessage, getMessageStatus } from "@/hooks/useMessages";
+import { MessageContent } from "./MessageContent";
+import { QuotedMessage } from "./QuotedMessage";
+import { ReactionBar, ReactionChips } from "./MessageReactions";
+import { useAuth } from "@/contexts/AuthContext";
+import { mentionsToText } from "@/lib/mentions";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+interface MessageBubbleProps {
+  message: Message;
+  isOwn: boolean;
+  showAvatar: boolean;
+  isHighlighted?: boolean;
+  onReply: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onReact: (emoji: string) => void;
+  onShowInfo: () => void;
+  onQuoteClick: (messageId: string) => void;
+  onOpenMedia: (index: number) => void;
+  onLoadEditHistory: (messageId: string) => Promise<{ data: MessageEdit[] }>;
+  onRetry: () => void;
+}
+
+export function MessageBubble({
+  message,
+  isOwn,
+  showAvatar,
+  isHighlighted = false,
+  onReply,
+  onEdit,
+  onDelete,
+  onReact,
+  onShowInfo,
+  onQuoteClick,
+  onOpenMedia,
+  onLoadEditHistory,
+  onRetry,
+}: MessageBubbleProps) {
+  const { user } = useAuth();
+  const [showReactionBar, setShowReactionBar] = useState(false);
+  const longPressTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const time = format(new Date(message.created_at), "HH:mm", { locale: fr });
+  const isDeleted = !!message.deleted_at;
+  // Messages still in the outbox have no server row to reply to, react to or edit
+  const isLocal = !!message.local_status;
+  const myReaction = message.reactions?.find((r) => r.user_id === user?.id);
+
+  // Long-press opens the reaction bar on touch devices
+  const handleTouchStart = () => {
+    if (isDeleted || isLocal) return;
+    longPressTimeoutRef.current = setTimeout(() => setShowReactionBar(true), 500);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimeoutRef.current) {
+      clearTimeout(longPressTimeoutRef.current);
+      longPressTimeoutRef.current = null;
+    }
+  };
+
+  const closeReactionBar = useCallback(() => setShowReactionBar(false), []);
+
+  if (message.message_type === "system") {
+    return (
+      <div id={`message-${message.id}`} className="flex justify-center">
+        <MessageContent message={message} />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`flex items-end gap-2 group ${isOwn ? "flex-row-reverse" : ""}`}
+    >
+      {showAvatar ? (
+        <Avatar className="w-8 h-8">
+          <AvatarImage src={message.sender?.avatar_url || undefined} />
+          <AvatarFallback className="bg-primary/10 text-primary text-xs">
+            {message.sender?.display_name?.charAt(0) || "?"}
+          </AvatarFallback>
+        </Avatar>
+      ) : (
+        <div className="w-8" />
+      )}
+
+      <div
+        className="relative"
+        onTouchStart={handleTouchStart}
+        onTouchEnd={cancelLongPress}
+        onTouchMove={cancelLongPress}
+      >
+        {!isDeleted && !isLocal && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowReactionBar(true)}
+            className={`absolute ${
+              isOwn ? "-left-14" : "-right-14"
+            } top-1/2 -translate-y-1/2 w-6 h-6 opacity-0 group-hover:opacity-100 transition-opacity`}
+          >
+            <SmilePlus className="w-4 h-4" />
+          </Button>
+        )}
+
+        {showReactionBar && (
+          <ReactionBar
+            isOwn={isOwn}
+            selectedEmoji={myReaction?.emoji}
+            onSelect={onReact}
+            onClose={closeReactionBar}
+          />
+        )}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`absolute ${
+                isOwn ? "-left-8" : "-right-8"
+              } top-1/2 -translate-y-1/2 w-6 h-6 opacity-0 group-hover:opacity-100 transition-opacity`}
+            >
+              <MoreVertical className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {!isDeleted && !isLocal && (
+              <DropdownMenuItem onClick={onReply}>
+                <Reply className="w-4 h-4 mr-2" />
+                Répondre
+              </DropdownMenuItem>
+            )}
+            {isOwn && !isLocal && canEditMessage(message) && (
+              <DropdownMenuItem onClick={onEdit}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Modifier
+              </DropdownMenuItem>
+            )}
+            {isOwn && !isDeleted && !isLocal && (
+              <DropdownMenuItem onClick={onShowInfo}>
+                <Info className="w-4 h-4 mr-2" />
+                Infos du message
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={onDelete} className="text-destructive">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Supprimer
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <div
+          className={`max-w-[70%] px-4 py-2 rounded-2xl transition-shadow ${
+            isOwn
+              ? "bg-chat-sent text-chat-sent-foreground rounded-br-sm"
+              : "bg-chat-received text-chat-received-foreground rounded-bl-sm"
+          } ${isHighlighted ? "ring-2 ring-primary ring-offset-2 ring-offset-background" : ""}`}
+        >
+          {showAvatar && message.sender?.display_name && (
+            <p className="text-xs font-semibold mb-1 opacity-70">
+              {message.sender.display_name}
+            </p>
+          )}
+
+          {isDeleted ? (
+            <p className="text-sm italic opacity-70 flex items-center gap-1.5">
+              <Ban className="w-4 h-4" />
+              {isOwn ? "Vous avez supprimé ce message" : "Ce message a été supprimé"}
+            </p>
+          ) : (
+            <>
+              {message.reply_to && (
+                <QuotedMessage
+                  message={message.reply_to}
+                  onClick={() => onQuoteClick(message.reply_to!.id)}
+                  className="mb-1"
+                />
+              )}
+
+              <MessageContent message={message} onOpenMedia={onOpenMedia} />
+            </>
+          )}
+
+          <div className={`flex items-center gap-1 mt-1 ${isOwn ? "justify-end" : ""}`}>
+            {message.edited_at && !isDeleted && (
+              <EditHistoryPopover
+                message={message}
+                isOwn={isOwn}
+                onLoad={onLoadEditHistory}
+              />
+            )}
+            <p className={`text-[10px] ${isOwn ? "opacity-70" : "opacity-50"}`}>
+              {time}
+            </p>
+            {isOwn && !isDeleted && <MessageStatusIcon status={getMessageStatus(message)} />}
+          </div>
+        </div>
+
+        {!isDeleted && message.reactions && message.reactions.length > 0 && (
+          <ReactionChips reactions={message.reactions} isOwn={isOwn} onToggle={onReact} />
+        )}
+
+        {message.local_status === "failed" && (
+          <div className={`flex mt-1 ${isOwn ? "justify-end" : ""}`}>
+            <button
+              onClick={onRetry}
+              className="flex items-center gap-1 text-xs text-destructive hover:underline"
+            >
+              <AlertCircle className="w-3 h-3" />
+              Échec de l'envoi. Appuyez pour réessayer
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function MessageStatusIcon({ status }: { status: MessageStatus }) {
+  if (status === "failed") {
+    return <AlertCircle className="w-3 h-3 text-destructive" />;
+  }
+
+  if (status === "pending") {
+    return <Clock className="w-3 h-3 opacity-70" />;
+  }
+
+  if (status === "read") {
+    return <CheckCheck className="w-3 h-3 text-sky-300" />;
+  }
+
+  return (
+    <span className="opacity-70">
+      {status === "delivered" ? (
+        <CheckCheck className="w-3 h-3" />
+      ) : (
+        <Check className="w-3 h-3" />
+      )}
+    </span>
+  );
+}
+
+function EditHistoryPopover({
+  message,
+  isOwn,
+  onLoad,
+}: {
+  message: Message;
+  isOwn: boolean;
+  onLoad: (messageId: string) => Promise<{ data: MessageEdit[] }>;
+}) {
+  const [edits, setEdits] = useState<MessageEdit[] | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    const { data } = await onLoad(message.id);
+    setEdits(data);
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button className={`text-[10px] italic hover:underline ${isOwn ? "opacity-70" : "opacity-50"}`}>
+          modifié
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3">
+        <p className="text-xs font-semibold text-muted-foreground uppercase mb-2">
+          Historique des modifications
+        </p>
+        {edits === null ? (
+          <p className="text-sm text-muted-foreground animate-pulse">Chargement...</p>
+        ) : edits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Aucune version précédente</p>
+        ) : (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {edits.map((edit) => (
+              <div key={edit.id} className="text-sm">
+                <p className="whitespace-pre-wrap break-words">{edit.previous_content && mentionsToText(edit.previous_content)}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  Remplacé le {format(new Date(edit.edited_at), "d MMM 'à' HH:mm", { locale: fr })}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
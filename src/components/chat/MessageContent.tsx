@@ -0,0 +1,192 @@
+import { Camera, FileText, ListChecks, LucideIcon, MapPin, Mic, UserRound, Video } from "lucide-react";
+import { MessageKind } from "@/lib/data";
+import { mentionsToText, splitMentions } from "@/lib/mentions";
+import { AttachmentKind, MessageBodyOf, MessageColumns, getMessageBody } from "@/lib/messageKinds";
+import { MessageAttachment } from "./FilePreview";
+
+interface BodyOptions {
+  // Opens a photo or video of the message in the media viewer
+  onOpenMedia?: (index: number) => void;
+}
+
+interface MessageRenderer<K extends MessageKind> {
+  // Content of the message bubble
+  Body: (props: { body: MessageBodyOf<K> } & BodyOptions) => JSX.Element;
+  // One line summary for the inbox, quoted replies and message info
+  preview: (body: MessageBodyOf<K>) => string;
+  icon?: LucideIcon;
+}
+
+// Text with the mentioned members highlighted
+function MentionText({ text }: { text: string }) {
+  return (
+    <>
+      {splitMentions(text).map((part, index) =>
+        part.userId ? (
+          <span key={index} className="font-semibold rounded px-0.5 bg-background/20">
+            @{part.text}
+          </span>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
+
+function Caption({ text }: { text: string | null }) {
+  if (!text) return null;
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words mt-1">
+      <MentionText text={text} />
+    </p>
+  );
+}
+
+function AttachmentBody({ body, onOpenMedia }: { body: MessageBodyOf<AttachmentKind> } & BodyOptions) {
+  return (
+    <>
+      <MessageAttachment attachments={body.attachments} kind={body.kind} onOpen={onOpenMedia} />
+      <Caption text={body.caption} />
+    </>
+  );
+}
+
+function LocationBody({ body: { location } }: { body: MessageBodyOf<"location"> }) {
+  const { latitude, longitude } = location;
+
+  return (
+    <a
+      href={`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 p-2 bg-background/20 rounded-lg hover:bg-background/30 transition-colors"
+    >
+      <MapPin className="w-5 h-5 shrink-0" />
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{location.label || "Position partagée"}</p>
+        <p className="text-xs opacity-70">
+          {latitude.toFixed(5)}, {longitude.toFixed(5)}
+        </p>
+      </div>
+    </a>
+  );
+}
+
+function ContactBody({ body: { contact } }: { body: MessageBodyOf<"contact"> }) {
+  return (
+    <div className="flex items-center gap-2 p-2 bg-background/20 rounded-lg">
+      <div className="w-9 h-9 rounded-full bg-primary/10 text-primary flex items-center justify-center shrink-0">
+        <UserRound className="w-5 h-5" />
+      </div>
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{contact.name}</p>
+        {contact.phone && (
+          <a href={`tel:${contact.phone}`} className="text-xs opacity-70 hover:underline">
+            {contact.phone}
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PollBody({ body: { poll } }: { body: MessageBodyOf<"poll"> }) {
+  return (
+    <div className="min-w-[200px] space-y-2">
+      <p className="text-sm font-semibold flex items-center gap-1.5">
+        <ListChecks className="w-4 h-4 shrink-0" />
+        {poll.question}
+      </p>
+      {poll.multiple && <p className="text-xs opacity-70">Plusieurs réponses possibles</p>}
+      <ul className="space-y-1">
+        {poll.options.map((option, index) => (
+          <li key={index} className="text-sm px-2 py-1 rounded-md bg-background/20 break-words">
+            {option}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Albums are summed up by their size, e.g. "3 photos"
+const albumLabel = (body: MessageBodyOf<AttachmentKind>, single: string, plural: string) =>
+  body.attachments.length > 1 ? `${body.attachments.length} ${plural}` : single;
+
+const attachment = <K extends AttachmentKind>(icon: LucideIcon, single: string, plural: string): MessageRenderer<K> => ({
+  Body: AttachmentBody,
+  preview: (body: MessageBodyOf<AttachmentKind>) =>
+    (body.caption && mentionsToText(body.caption)) || albumLabel(body, single, plural),
+  icon,
+});
+
+// One renderer per kind, so adding a kind to the message_kind enum fails to compile until it is rendered
+const renderers: { [K in MessageKind]: MessageRenderer<K> } = {
+  text: {
+    Body: ({ body }) => (
+      <p className="text-sm whitespace-pre-wrap break-words">
+        <MentionText text={body.text} />
+      </p>
+    ),
+    preview: (body) => mentionsToText(body.text),
+  },
+  system: {
+    Body: ({ body }) => (
+      <p className="text-xs text-center px-3 py-1 rounded-lg bg-secondary text-muted-foreground">{body.text}</p>
+    ),
+    preview: (body) => body.text,
+  },
+  image: attachment(Camera, "Photo", "photos"),
+  video: attachment(Video, "Vidéo", "vidéos"),
+  audio: attachment(Mic, "Audio", "audios"),
+  file: {
+    Body: AttachmentBody,
+    preview: (body) =>
+      (body.caption && mentionsToText(body.caption)) ||
+      albumLabel(body, body.attachments[0]?.file_name || "Fichier", "fichiers"),
+    icon: FileText,
+  },
+  location: {
+    Body: LocationBody,
+    preview: (body) => body.location.label || "Position",
+    icon: MapPin,
+  },
+  contact: {
+    Body: ContactBody,
+    preview: (body) => body.contact.name,
+    icon: UserRound,
+  },
+  poll: {
+    Body: PollBody,
+    preview: (body) => `Sondage : ${body.poll.question}`,
+    icon: ListChecks,
+  },
+};
+
+export function MessageContent({
+  message,
+  onOpenMedia,
+}: { message: MessageColumns } & BodyOptions) {
+  const body = getMessageBody(message);
+
+  if (!body) {
+    return <p className="text-sm italic opacity-70">Ce message n'est pas pris en charge</p>;
+  }
+
+  const { Body } = renderers[body.kind] as MessageRenderer<MessageKind>;
+  return <Body body={body} onOpenMedia={onOpenMedia} />;
+}
+
+export function MessagePreview({ message }: { message: MessageColumns }) {
+  const body = getMessageBody(message);
+  if (!body) return <>Message non pris en charge</>;
+
+  const { preview, icon: Icon } = renderers[body.kind] as MessageRenderer<MessageKind>;
+  return (
+    <>
+      {Icon && <Icon className="inline w-[1em] h-[1em] mr-1 align-[-0.125em]" />}
+      {preview(body)}
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+import { CheckCheck, Check } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ConversationMember } from "@/hooks/useConversations";
+import { Message, MessageReceipt } from "@/hooks/useMessages";
+import { MessagePreview } from "./MessageContent";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+
+interface MessageInfoDialogProps {
+  message: Message | null;
+  members: ConversationMember[];
+  onClose: () => void;
+}
+
+export function MessageInfoDialog({ message, members, onClose }: MessageInfoDialogProps) {
+  const receipts = message?.receipts || [];
+  const read = receipts.filter((r) => r.read_at);
+  const delivered = receipts.filter((r) => !r.read_at && r.delivered_at);
+  const pending = receipts.filter((r) => !r.read_at && !r.delivered_at);
+
+  return (
+    <Dialog open={!!message} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Infos du message</DialogTitle>
+        </DialogHeader>
+
+        {message && (
+          <div className="space-y-4">
+            <div className="p-3 rounded-lg bg-secondary">
+              <p className="text-sm whitespace-pre-wrap break-words line-clamp-4">
+                <MessagePreview message={message} />
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Envoyé le {format(new Date(message.created_at), "d MMMM 'à' HH:mm", { locale: fr })}
+              </p>
+            </div>
+
+            <ReceiptSection
+              title="Lu par"
+              icon={<CheckCheck className="w-4 h-4 text-sky-500" />}
+              receipts={read}
+              members={members}
+              timeOf={(r) => r.read_at}
+            />
+            <ReceiptSection
+              title="Distribué à"
+              icon={<CheckCheck className="w-4 h-4 text-muted-foreground" />}
+              receipts={delivered}
+              members={members}
+              timeOf={(r) => r.delivered_at}
+            />
+            {pending.length > 0 && (
+              <ReceiptSection
+                title="En attente"
+                icon={<Check className="w-4 h-4 text-muted-foreground" />}
+                receipts={pending}
+                members={members}
+                timeOf={() => null}
+              />
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReceiptSection({
+  title,
+  icon,
+  receipts,
+  members,
+  timeOf,
+}: {
+  title: string;
+  icon: React.ReactNode;
+  receipts: MessageReceipt[];
+  members: ConversationMember[];
+  timeOf: (receipt: MessageReceipt) => string | null;
+}) {
+  return (
+    <section>
+      <h3 className="flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase mb-2">
+        {icon}
+        {title}
+      </h3>
+      {receipts.length === 0 ? (
+        <p className="text-sm text-muted-foreground pl-6">Personne pour le moment</p>
+      ) : (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {receipts.map((receipt) => {
+            const profile = members.find((m) => m.user_id === receipt.user_id)?.profile;
+            const name = profile?.display_name || profile?.username || "Utilisateur";
+            const time = timeOf(receipt);
+
+            return (
+              <div key={receipt.id} className="flex items-center gap-3 p-1">
+                <Avatar className="w-8 h-8">
+                  <AvatarImage src={profile?.avatar_url || undefined} />
+                  <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                    {name.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <p className="flex-1 text-sm font-medium truncate">{name}</p>
+                {time && (
+                  <p className="text-xs text-muted-foreground shrink-0">
+                    {format(new Date(time), "d MMM, HH:mm", { locale: fr })}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,316 @@
+import {
+  forwardRef,
+  useCallback,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Message } from "@/hooks/useMessages";
+import { format, isSameDay, isSameYear, isToday, isYesterday } from "date-fns";
+import { fr } from "date-fns/locale";
+
+type Row =
+  | { type: "date"; key: string; label: string }
+  | { type: "unread"; key: string; label: string }
+  | { type: "message"; key: string; label: string; message: Message; index: number };
+
+export interface MessageListHandle {
+  scrollToMessage: (messageId: string) => boolean;
+  scrollToUnread: () => boolean;
+  scrollToBottom: () => void;
+}
+
+interface MessageListProps {
+  messages: Message[];
+  currentUserId?: string;
+  hasMore: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => Promise<boolean>;
+  // Set while the latest messages are not loaded, after jumping to an older one
+  hasNewer?: boolean;
+  loadingNewer?: boolean;
+  onLoadNewer?: () => Promise<boolean>;
+  onShowLatest?: () => Promise<void>;
+  renderMessage: (message: Message, index: number) => ReactNode;
+  // First message that was unread when the conversation was opened
+  firstUnreadId?: string | null;
+  unreadCount?: number;
+  // Called to reach unread messages older than the loaded pages
+  onJumpToUnread?: () => void;
+}
+
+// Distance from the bottom under which the list keeps following new messages
+const BOTTOM_THRESHOLD = 200;
+
+function formatDateLabel(date: Date) {
+  if (isToday(date)) return "Aujourd'hui";
+  if (isYesterday(date)) return "Hier";
+  if (isSameYear(date, new Date())) return format(date, "EEEE d MMMM", { locale: fr });
+  return format(date, "d MMMM yyyy", { locale: fr });
+}
+
+export const MessageList = forwardRef<MessageListHandle, MessageListProps>(
+  (
+    {
+      messages,
+      currentUserId,
+      hasMore,
+      loadingOlder,
+      onLoadOlder,
+      hasNewer = false,
+      loadingNewer = false,
+      onLoadNewer,
+      onShowLatest,
+      renderMessage,
+      firstUnreadId,
+      unreadCount = 0,
+      onJumpToUnread,
+    },
+    ref
+  ) => {
+    const scrollContainerRef = useRef<HTMLDivElement>(null);
+    const lastMessageIdRef = useRef<string | null>(null);
+    const scrollAnchorRef = useRef<number | null>(null);
+    // Last message when newer ones were requested, they are appended below without following them
+    const newerAfterRef = useRef<string | null>(null);
+    const followLatestRef = useRef(false);
+    const [isAtBottom, setIsAtBottom] = useState(true);
+    const [unseenCount, setUnseenCount] = useState(0);
+    const [scrollOffset, setScrollOffset] = useState(0);
+
+    // Interleave a date separator before the first message of each day
+    const rows = useMemo(() => {
+      const result: Row[] = [];
+      messages.forEach((message, index) => {
+        const date = new Date(message.created_at);
+        const label = formatDateLabel(date);
+        const previous = messages[index - 1];
+
+        if (!previous || !isSameDay(new Date(previous.created_at), date)) {
+          result.push({ type: "date", key: `date-${message.id}`, label });
+        }
+        if (message.id === firstUnreadId) {
+          result.push({ type: "unread", key: "unread", label });
+        }
+        result.push({ type: "message", key: message.id, label, message, index });
+      });
+      return result;
+    }, [messages, firstUnreadId]);
+
+    const unreadIndex = rows.findIndex((r) => r.type === "unread");
+
+    const virtualizer = useVirtualizer({
+      count: rows.length,
+      getScrollElement: () => scrollContainerRef.current,
+      estimateSize: (i) => (rows[i].type === "message" ? 72 : 44),
+      getItemKey: (i) => rows[i].key,
+      overscan: 8,
+      paddingStart: 8,
+      paddingEnd: 8,
+    });
+
+    const scrollToBottom = useCallback(() => {
+      if (rows.length === 0) return;
+      virtualizer.scrollToIndex(rows.length - 1, { align: "end" });
+      setUnseenCount(0);
+    }, [rows.length, virtualizer]);
+
+    const scrollToUnread = useCallback(() => {
+      if (unreadIndex === -1) return false;
+      virtualizer.scrollToIndex(unreadIndex, { align: "start" });
+      return true;
+    }, [unreadIndex, virtualizer]);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        scrollToMessage: (messageId: string) => {
+          const index = rows.findIndex((r) => r.key === messageId);
+          if (index === -1) return false;
+          virtualizer.scrollToIndex(index, { align: "center" });
+          return true;
+        },
+        scrollToUnread,
+        scrollToBottom,
+      }),
+      [rows, virtualizer, scrollToUnread, scrollToBottom]
+    );
+
+    // Keep the viewport stable when older pages are prepended, follow new messages at the bottom
+    useLayoutEffect(() => {
+      const container = scrollContainerRef.current;
+      if (!container) return;
+
+      if (scrollAnchorRef.current !== null) {
+        container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+        scrollAnchorRef.current = null;
+      }
+
+      const lastMessage = messages[messages.length - 1];
+      if (!lastMessage || lastMessage.id === lastMessageIdRef.current) return;
+
+      const isFirstRender = lastMessageIdRef.current === null;
+      const appendedNewer = lastMessageIdRef.current === newerAfterRef.current;
+      lastMessageIdRef.current = lastMessage.id;
+      newerAfterRef.current = null;
+
+      if (followLatestRef.current && !hasNewer) {
+        followLatestRef.current = false;
+        scrollToBottom();
+      } else if (hasNewer || appendedNewer) {
+        return;
+      } else if (isFirstRender || lastMessage.sender_id === currentUserId || isAtBottom) {
+        scrollToBottom();
+      } else {
+        setUnseenCount((count) => count + 1);
+      }
+    }, [messages, currentUserId, isAtBottom, hasNewer, scrollToBottom]);
+
+    const handleScroll = () => {
+      const container = scrollContainerRef.current;
+      if (!container) return;
+
+      const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+      const atBottom = distanceFromBottom < BOTTOM_THRESHOLD;
+      setIsAtBottom(atBottom);
+      setScrollOffset(container.scrollTop);
+      if (atBottom) setUnseenCount(0);
+
+      if (container.scrollTop < 100 && hasMore && !loadingOlder) {
+        scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+        onLoadOlder().then((loaded) => {
+          if (!loaded) scrollAnchorRef.current = null;
+        });
+      }
+
+      if (atBottom && hasNewer && !loadingNewer && onLoadNewer) {
+        newerAfterRef.current = messages[messages.length - 1]?.id ?? null;
+        onLoadNewer().then((loaded) => {
+          if (!loaded) newerAfterRef.current = null;
+        });
+      }
+    };
+
+    const showLatest = () => {
+      if (!hasNewer || !onShowLatest) {
+        scrollToBottom();
+        return;
+      }
+      followLatestRef.current = true;
+      onShowLatest();
+    };
+
+    const virtualItems = virtualizer.getVirtualItems();
+    const firstVisible = virtualItems.find((item) => item.end > scrollOffset);
+    const stickyLabel = firstVisible ? rows[firstVisible.index]?.label : null;
+
+    // Offer the jump while the divider is above the viewport or not loaded yet
+    const unreadAbove =
+      unreadIndex === -1
+        ? !firstUnreadId
+        : (virtualizer.measurementsCache[unreadIndex]?.end ?? 0) <= scrollOffset;
+    const showJumpToUnread = unreadCount > 0 && unreadAbove;
+
+    return (
+      <div className="relative flex-1 min-h-0">
+        {/* Sticky date header */}
+        {stickyLabel && scrollOffset > 0 && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 pointer-events-none">
+            <DateLabel label={stickyLabel} />
+          </div>
+        )}
+
+        {loadingOlder && (
+          <div className="absolute top-12 left-1/2 -translate-x-1/2 z-10 p-1.5 rounded-full bg-card shadow">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        <div
+          ref={scrollContainerRef}
+          onScroll={handleScroll}
+          className="h-full overflow-y-auto px-4 scrollbar-hide"
+        >
+          <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualItems.map((item) => {
+              const row = rows[item.index];
+
+              return (
+                <div
+                  key={item.key}
+                  data-index={item.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute top-0 left-0 w-full py-2"
+                  style={{ transform: `translateY(${item.start}px)` }}
+                >
+                  {row.type === "date" ? (
+                    <div className="flex justify-center">
+                      <DateLabel label={row.label} />
+                    </div>
+                  ) : row.type === "unread" ? (
+                    <div className="py-1 rounded-md bg-primary/10 text-center text-xs font-medium text-primary">
+                      Messages non lus
+                    </div>
+                  ) : (
+                    renderMessage(row.message, row.index)
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {loadingNewer && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 p-1.5 rounded-full bg-card shadow">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {/* Jump to first unread */}
+        {showJumpToUnread && (
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => !scrollToUnread() && onJumpToUnread?.()}
+            className="absolute top-2 right-4 z-10 rounded-full shadow-lg animate-scale-in"
+          >
+            <ChevronUp className="w-4 h-4 mr-1" />
+            {unreadCount > 1 ? `${unreadCount} messages non lus` : "1 message non lu"}
+          </Button>
+        )}
+
+        {/* Scroll to bottom, loading the latest messages after a jump */}
+        {(!isAtBottom || hasNewer) && (
+          <Button
+            size="icon"
+            variant="secondary"
+            onClick={showLatest}
+            className="absolute bottom-4 right-4 z-10 rounded-full shadow-lg animate-scale-in"
+          >
+            <ChevronDown className="w-5 h-5" />
+            {unseenCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center">
+                {unseenCount}
+              </span>
+            )}
+          </Button>
+        )}
+      </div>
+    );
+  }
+);
+MessageList.displayName = "MessageList";
+
+function DateLabel({ label }: { label: string }) {
+  return (
+    <span className="px-3 py-1 rounded-full bg-card/90 backdrop-blur text-xs font-medium text-muted-foreground shadow-sm capitalize">
+      {label}
+    </span>
+  );
+}
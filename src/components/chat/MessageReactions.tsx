@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react";
+import { Plus } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { MessageReaction } from "@/hooks/useMessages";
+import { useAuth } from "@/contexts/AuthContext";
+import { EmojiPicker } from "./EmojiPicker";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+interface ReactionBarProps {
+  isOwn: boolean;
+  selectedEmoji?: string;
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+export function ReactionBar({ isOwn, selectedEmoji, onSelect, onClose }: ReactionBarProps) {
+  const [showPicker, setShowPicker] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (showPicker) return;
+
+    const handleClickOutside = (event: MouseEvent | TouchEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("touchstart", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("touchstart", handleClickOutside);
+    };
+  }, [showPicker, onClose]);
+
+  const handleSelect = (emoji: string) => {
+    onSelect(emoji);
+    onClose();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`absolute bottom-full mb-2 z-40 ${isOwn ? "right-0" : "left-0"}`}
+    >
+      <div className="flex items-center gap-1 px-2 py-1 rounded-full bg-popover border border-border shadow-lg animate-scale-in">
+        {QUICK_REACTIONS.map((emoji) => (
+          <button
+            key={emoji}
+            onClick={() => handleSelect(emoji)}
+            className={`w-8 h-8 flex items-center justify-center rounded-full text-lg hover:bg-accent hover:scale-110 transition-transform ${
+              selectedEmoji === emoji ? "bg-accent" : ""
+            }`}
+          >
+            {emoji}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowPicker(true)}
+          className="w-8 h-8 flex items-center justify-center rounded-full text-muted-foreground hover:bg-accent"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showPicker && (
+        <EmojiPicker
+          onSelect={handleSelect}
+          onClose={() => {
+            setShowPicker(false);
+            onClose();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ReactionChipsProps {
+  reactions: MessageReaction[];
+  isOwn: boolean;
+  onToggle: (emoji: string) => void;
+}
+
+export function ReactionChips({ reactions, isOwn, onToggle }: ReactionChipsProps) {
+  const { user } = useAuth();
+
+  // Group reactions by emoji, keeping the order in which they first appeared
+  const groups = reactions.reduce<Record<string, MessageReaction[]>>((acc, reaction) => {
+    (acc[reaction.emoji] ||= []).push(reaction);
+    return acc;
+  }, {});
+
+  return (
+    <div className={`flex flex-wrap gap-1 -mt-1 ${isOwn ? "justify-end" : ""}`}>
+      {Object.entries(groups).map(([emoji, group]) => {
+        const reactedByMe = group.some((r) => r.user_id === user?.id);
+
+        return (
+          <Popover key={emoji}>
+            <PopoverTrigger asChild>
+              <button
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full text-xs border shadow-sm transition-colors ${
+                  reactedByMe
+                    ? "bg-primary/10 border-primary text-primary"
+                    : "bg-card border-border text-foreground"
+                }`}
+              >
+                <span>{emoji}</span>
+                {group.length > 1 && <span>{group.length}</span>}
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-56 p-2" align={isOwn ? "end" : "start"}>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {group.map((reaction) => {
+                  const isMe = reaction.user_id === user?.id;
+                  const name = isMe
+                    ? "Vous"
+                    : reaction.profile?.display_name || reaction.profile?.username || "Utilisateur";
+
+                  return (
+                    <button
+                      key={reaction.id}
+                      onClick={() => isMe && onToggle(emoji)}
+                      disabled={!isMe}
+                      className="w-full flex items-center gap-2 p-1 rounded-md text-left hover:bg-accent disabled:hover:bg-transparent"
+                    >
+                      <Avatar className="w-7 h-7">
+                        <AvatarImage src={reaction.profile?.avatar_url || undefined} />
+                        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                          {name.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{name}</p>
+                        {isMe && (
+                          <p className="text-[10px] text-muted-foreground">Appuyez pour retirer</p>
+                        )}
+                      </div>
+                      <span className="text-lg">{emoji}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </PopoverContent>
+          </Popover>
+        );
+      })}
+    </div>
+  );
+}
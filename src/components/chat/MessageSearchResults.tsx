@@ -0,0 +1,108 @@
+import { useMemo } from "react";
+import { Users } from "lucide-react";
+import { format, isToday } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useAuth } from "@/contexts/AuthContext";
+import { Conversation } from "@/hooks/useConversations";
+import { MessageSearchHit } from "@/lib/data";
+import { splitSnippet } from "@/lib/search";
+
+interface MessageSearchResultsProps {
+  hits: MessageSearchHit[];
+  conversations: Conversation[];
+  searching: boolean;
+  onSelect: (conversationId: string, messageId: string) => void;
+}
+
+const formatDate = (date: string) =>
+  format(new Date(date), isToday(new Date(date)) ? "HH:mm" : "d MMM yyyy", { locale: fr });
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {/* Odd parts are the matched words */}
+      {splitSnippet(snippet).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-transparent text-primary font-semibold">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+// Hits grouped by conversation, the conversation with the most recent hit first
+export function MessageSearchResults({ hits, conversations, searching, onSelect }: MessageSearchResultsProps) {
+  const { user } = useAuth();
+
+  const groups = useMemo(() => {
+    const byConversation = new Map<string, MessageSearchHit[]>();
+    for (const hit of hits) {
+      byConversation.set(hit.conversation_id, [...(byConversation.get(hit.conversation_id) || []), hit]);
+    }
+
+    return [...byConversation].flatMap(([conversationId, conversationHits]) => {
+      const conversation = conversations.find((c) => c.id === conversationId);
+      return conversation ? [{ conversation, hits: conversationHits }] : [];
+    });
+  }, [hits, conversations]);
+
+  return (
+    <div className="pb-4">
+      <h3 className="px-4 pt-4 pb-2 text-sm font-semibold text-primary">Messages</h3>
+
+      {groups.length === 0 && (
+        <p className="px-4 py-2 text-sm text-muted-foreground">
+          {searching ? "Recherche..." : "Aucun message trouvé"}
+        </p>
+      )}
+
+      {groups.map(({ conversation, hits }) => {
+        const name = conversation.is_group
+          ? conversation.name
+          : conversation.other_user?.display_name || conversation.other_user?.username || "Utilisateur";
+        const avatar = conversation.is_group ? conversation.image_url : conversation.other_user?.avatar_url;
+
+        return (
+          <div key={conversation.id}>
+            <div className="flex items-center gap-2 px-4 py-2">
+              <Avatar className="w-6 h-6">
+                <AvatarImage src={avatar || undefined} />
+                <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                  {conversation.is_group ? <Users className="w-3 h-3" /> : name?.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="text-sm font-semibold text-foreground truncate">{name}</span>
+            </div>
+
+            {hits.map((hit) => {
+              // Who sent it only matters in groups and for the user's own messages
+              const profile = conversation.is_group
+                ? conversation.members?.find((m) => m.user_id === hit.sender_id)?.profile
+                : null;
+              const sender = hit.sender_id === user?.id ? "Vous" : profile?.display_name || profile?.username;
+
+              return (
+                <button
+                  key={hit.id}
+                  onClick={() => onSelect(conversation.id, hit.id)}
+                  className="w-full px-4 py-2 pl-12 flex items-start gap-2 text-left hover:bg-accent/50 transition-colors"
+                >
+                  <p className="flex-1 min-w-0 text-sm text-muted-foreground line-clamp-2 break-words">
+                    {sender && <span className="text-foreground">{sender} : </span>}
+                    <Snippet snippet={hit.snippet} />
+                  </p>
+                  <span className="text-xs text-muted-foreground shrink-0">{formatDate(hit.created_at)}</span>
+                </button>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -10,17 +10,10 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Checkbox } from "@/components/ui/checkbox";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
 import { useToast } from "@/hooks/use-toast";
-
-interface Profile {
-  id: string;
-  username: string | null;
-  display_name: string | null;
-  avatar_url: string | null;
-  is_online: boolean | null;
-}
+import { ProfileSummary } from "@/lib/data";
 
 interface NewChatDialogProps {
   open: boolean;
@@ -30,9 +23,10 @@ interface NewChatDialogProps {
 
 export function NewChatDialog({ open, onClose, onCreateConversation }: NewChatDialogProps) {
   const { user } = useAuth();
+  const { profiles } = useRepository();
   const { toast } = useToast();
   const [search, setSearch] = useState("");
-  const [users, setUsers] = useState<Profile[]>([]);
+  const [users, setUsers] = useState<ProfileSummary[]>([]);
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [isGroup, setIsGroup] = useState(false);
   const [groupName, setGroupName] = useState("");
@@ -48,11 +42,7 @@ export function NewChatDialog({ open, onClose, onCreateConversation }: NewChatDi
     }
 
     const fetchUsers = async () => {
-      const { data } = await supabase
-        .from("profiles")
-        .select("id, username, display_name, avatar_url, is_online")
-        .neq("id", user?.id || "")
-        .order("display_name");
+      const { data } = await profiles.search({ excludeId: user?.id || "" });
 
       if (data) {
         setUsers(data);
@@ -60,7 +50,7 @@ export function NewChatDialog({ open, onClose, onCreateConversation }: NewChatDi
     };
 
     fetchUsers();
-  }, [open, user]);
+  }, [profiles, open, user]);
 
   const filteredUsers = users.filter((u) => {
     const name = u.display_name || u.username || "";
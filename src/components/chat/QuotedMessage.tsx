@@ -0,0 +1,64 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ReplyToMessage } from "@/hooks/useMessages";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSignedUrl } from "@/hooks/useSignedUrl";
+import { MessagePreview } from "./MessageContent";
+
+interface QuotedMessageProps {
+  message: ReplyToMessage;
+  onClick?: () => void;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function QuotedMessage({ message, onClick, onRemove, className = "" }: QuotedMessageProps) {
+  const { user } = useAuth();
+
+  const author =
+    message.sender_id === user?.id
+      ? "Vous"
+      : message.sender?.display_name || message.sender?.username || "Utilisateur";
+
+  const isDeleted = !!message.deleted_at;
+  const isImage = !isDeleted && message.message_type === "image" && message.file_url;
+  const imageUrl = useSignedUrl("chat-attachments", isImage ? message.file_url : null);
+
+  return (
+    <div
+      onClick={onClick}
+      className={`relative flex items-center gap-2 pl-3 pr-2 py-1.5 rounded-lg border-l-4 border-primary bg-background/30 overflow-hidden ${
+        onClick ? "cursor-pointer hover:bg-background/40 transition-colors" : ""
+      } ${className}`}
+    >
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-semibold text-primary truncate">{author}</p>
+        <p className="text-xs opacity-80 truncate">
+          {isDeleted ? "Message supprimé" : <MessagePreview message={message} />}
+        </p>
+      </div>
+
+      {isImage && (
+        <img
+          src={imageUrl}
+          alt={message.file_name || "Photo"}
+          className="w-10 h-10 rounded object-cover shrink-0"
+        />
+      )}
+
+      {onRemove && (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="w-6 h-6 shrink-0"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+interface UnreadBadgeProps {
+  count: number;
+  className?: string;
+}
+
+export function UnreadBadge({ count, className = "" }: UnreadBadgeProps) {
+  if (count <= 0) return null;
+
+  return (
+    <span
+      className={`min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[11px] font-semibold flex items-center justify-center shrink-0 ${className}`}
+    >
+      {count > 99 ? "99+" : count}
+    </span>
+  );
+}
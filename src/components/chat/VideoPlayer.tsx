@@ -0,0 +1,78 @@
+import { useRef, useState } from "react";
+import { Maximize, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSignedUrl } from "@/hooks/useSignedUrl";
+import { AttachmentInfo } from "@/lib/data";
+import { formatDuration } from "@/lib/utils";
+
+// Safari on iOS only lets the video element itself go fullscreen, through a prefixed method
+type FullscreenVideo = HTMLVideoElement & { webkitEnterFullscreen?: () => void };
+
+export function VideoPlayer({ attachment }: { attachment: AttachmentInfo }) {
+  const videoRef = useRef<FullscreenVideo>(null);
+  const [started, setStarted] = useState(false);
+  const { url, width, height, duration_ms, poster_url } = attachment;
+  const src = useSignedUrl("chat-attachments", url);
+  const poster = useSignedUrl("chat-attachments", poster_url) || attachment.placeholder;
+
+  const play = () => {
+    setStarted(true);
+    videoRef.current?.play();
+  };
+
+  const enterFullscreen = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (video.requestFullscreen) {
+      video.requestFullscreen();
+    } else {
+      video.webkitEnterFullscreen?.();
+    }
+  };
+
+  return (
+    <div
+      className="relative w-[250px] max-h-[300px] rounded-lg overflow-hidden bg-black"
+      style={width && height ? { aspectRatio: `${width} / ${height}` } : undefined}
+    >
+      {/* With a poster nothing needs to be downloaded before the video is played */}
+      <video
+        ref={videoRef}
+        src={src}
+        poster={poster || undefined}
+        controls={started}
+        playsInline
+        preload={poster ? "none" : "metadata"}
+        className="block w-full h-full object-contain"
+      />
+
+      {!started && (
+        <button
+          onClick={play}
+          className="absolute inset-0 flex items-center justify-center"
+          aria-label="Lire la vidéo"
+        >
+          <span className="w-12 h-12 rounded-full bg-black/50 text-white flex items-center justify-center">
+            <Play className="w-6 h-6 ml-0.5" fill="currentColor" />
+          </span>
+          {duration_ms != null && (
+            <span className="absolute bottom-1.5 left-2 text-xs font-medium text-white drop-shadow tabular-nums">
+              {formatDuration(duration_ms / 1000)}
+            </span>
+          )}
+        </button>
+      )}
+
+      <Button
+        size="icon"
+        variant="ghost"
+        className="absolute top-1.5 right-1.5 w-7 h-7 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+        onClick={enterFullscreen}
+        aria-label="Plein écran"
+      >
+        <Maximize className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
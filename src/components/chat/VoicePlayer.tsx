@@ -0,0 +1,133 @@
+import { useRef, useState } from "react";
+import { Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDuration } from "@/lib/utils";
+
+const SPEEDS = [1, 1.5, 2];
+
+// Drawn for audio files sent without a waveform
+const FLAT_WAVEFORM = Array.from({ length: 48 }, () => 30);
+
+const SEEK_STEP_SECONDS = 5;
+
+interface VoicePlayerProps {
+  // Undefined until the signed URL has resolved
+  src?: string;
+  durationMs: number | null;
+  waveform: number[] | null;
+}
+
+export function VoicePlayer({ src, durationMs, waveform }: VoicePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState((durationMs ?? 0) / 1000);
+  const [speed, setSpeed] = useState(1);
+
+  const bars = waveform?.length ? waveform : FLAT_WAVEFORM;
+  const played = duration > 0 ? currentTime / duration : 0;
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play();
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio || duration <= 0) return;
+
+    audio.currentTime = Math.min(duration, Math.max(0, seconds));
+    setCurrentTime(audio.currentTime);
+  };
+
+  const seekToPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seekTo(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const cycleSpeed = () => {
+    const next = SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length];
+    setSpeed(next);
+    if (audioRef.current) audioRef.current.playbackRate = next;
+  };
+
+  return (
+    <div className="flex items-center gap-2 w-[250px]">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onLoadedMetadata={(e) => {
+          // Recordings made with MediaRecorder often report an infinite duration, the recorded one is kept then
+          if (Number.isFinite(e.currentTarget.duration)) setDuration(e.currentTarget.duration);
+          e.currentTarget.playbackRate = speed;
+        }}
+        onEnded={() => setCurrentTime(0)}
+      />
+
+      <Button
+        size="icon"
+        variant="ghost"
+        className="w-8 h-8 shrink-0 rounded-full"
+        onClick={togglePlay}
+        aria-label={playing ? "Pause" : "Lecture"}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+
+      <div className="flex-1 min-w-0">
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Position de lecture"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+          aria-valuetext={formatDuration(currentTime)}
+          className="flex items-center gap-px h-8 cursor-pointer touch-none"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekToPointer(e);
+          }}
+          onPointerMove={(e) => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) seekToPointer(e);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "ArrowLeft") seekTo(currentTime - SEEK_STEP_SECONDS);
+            if (e.key === "ArrowRight") seekTo(currentTime + SEEK_STEP_SECONDS);
+          }}
+        >
+          {bars.map((bar, index) => (
+            <span
+              key={index}
+              className={`flex-1 rounded-full ${
+                (index + 0.5) / bars.length <= played ? "bg-current" : "bg-current opacity-40"
+              }`}
+              style={{ height: `${Math.max(8, bar)}%` }}
+            />
+          ))}
+        </div>
+        <p className="text-[10px] opacity-70 tabular-nums">
+          {formatDuration(playing || currentTime > 0 ? currentTime : duration)}
+        </p>
+      </div>
+
+      <button
+        onClick={cycleSpeed}
+        className="shrink-0 text-xs font-semibold px-1.5 py-0.5 rounded-full bg-background/20 hover:bg-background/30 tabular-nums"
+        aria-label="Vitesse de lecture"
+      >
+        {speed}×
+      </button>
+    </div>
+  );
+}
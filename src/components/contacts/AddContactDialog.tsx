@@ -9,17 +9,10 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
 import { useToast } from "@/hooks/use-toast";
-
-interface Profile {
-  id: string;
-  username: string | null;
-  display_name: string | null;
-  avatar_url: string | null;
-  is_online: boolean | null;
-}
+import { ProfileSummary } from "@/lib/data";
 
 interface AddContactDialogProps {
   open: boolean;
@@ -35,9 +28,10 @@ export function AddContactDialog({
   existingContactIds,
 }: AddContactDialogProps) {
   const { user } = useAuth();
+  const { profiles, contacts } = useRepository();
   const { toast } = useToast();
   const [search, setSearch] = useState("");
-  const [users, setUsers] = useState<Profile[]>([]);
+  const [users, setUsers] = useState<ProfileSummary[]>([]);
   const [loading, setLoading] = useState(false);
   const [sendingTo, setSendingTo] = useState<string | null>(null);
 
@@ -57,12 +51,7 @@ export function AddContactDialog({
       }
 
       setLoading(true);
-      const { data } = await supabase
-        .from("profiles")
-        .select("id, username, display_name, avatar_url, is_online")
-        .neq("id", user?.id || "")
-        .or(`username.ilike.%${search}%,display_name.ilike.%${search}%`)
-        .limit(20);
+      const { data } = await profiles.search({ excludeId: user?.id || "", query: search, limit: 20 });
 
       if (data) {
         // Filter out existing contacts
@@ -74,18 +63,14 @@ export function AddContactDialog({
 
     const debounce = setTimeout(searchUsers, 300);
     return () => clearTimeout(debounce);
-  }, [search, user, existingContactIds]);
+  }, [profiles, search, user, existingContactIds]);
 
   const handleSendRequest = async (profileId: string) => {
     if (!user) return;
 
     setSendingTo(profileId);
 
-    const { error } = await supabase.from("contacts").insert({
-      user_id: user.id,
-      contact_id: profileId,
-      status: "pending",
-    });
+    const { error } = await contacts.request(user.id, profileId);
 
     if (error) {
       if (error.code === "23505") {
@@ -1,11 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Search, UserPlus, Check, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useContacts } from "@/hooks/useContacts";
 import { AddContactDialog } from "./AddContactDialog";
 import {
   Tabs,
@@ -14,104 +13,22 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 
-interface Contact {
-  id: string;
-  user_id: string;
-  contact_id: string;
-  status: string;
-  created_at: string;
-  contact_profile?: {
-    id: string;
-    username: string | null;
-    display_name: string | null;
-    avatar_url: string | null;
-    is_online: boolean | null;
-  };
-  user_profile?: {
-    id: string;
-    username: string | null;
-    display_name: string | null;
-    avatar_url: string | null;
-    is_online: boolean | null;
-  };
-}
-
 export function ContactsView() {
-  const { user } = useAuth();
   const { toast } = useToast();
   const [search, setSearch] = useState("");
-  const [contacts, setContacts] = useState<Contact[]>([]);
-  const [pendingReceived, setPendingReceived] = useState<Contact[]>([]);
-  const [pendingSent, setPendingSent] = useState<Contact[]>([]);
-  const [loading, setLoading] = useState(true);
+  const {
+    contacts,
+    pendingReceived,
+    pendingSent,
+    loading,
+    acceptRequest,
+    removeRequest,
+    refetch: fetchContacts,
+  } = useContacts();
   const [showAddDialog, setShowAddDialog] = useState(false);
 
-  const fetchContacts = async () => {
-    if (!user) return;
-
-    // Fetch accepted contacts (both directions)
-    const { data: acceptedAsUser } = await supabase
-      .from("contacts")
-      .select(`
-        *,
-        contact_profile:profiles!contacts_contact_id_fkey(id, username, display_name, avatar_url, is_online)
-      `)
-      .eq("user_id", user.id)
-      .eq("status", "accepted");
-
-    const { data: acceptedAsContact } = await supabase
-      .from("contacts")
-      .select(`
-        *,
-        user_profile:profiles!contacts_user_id_fkey(id, username, display_name, avatar_url, is_online)
-      `)
-      .eq("contact_id", user.id)
-      .eq("status", "accepted");
-
-    // Merge both directions
-    const allAccepted = [
-      ...(acceptedAsUser || []),
-      ...(acceptedAsContact || []).map((c) => ({
-        ...c,
-        contact_profile: c.user_profile,
-      })),
-    ];
-
-    // Fetch pending requests received
-    const { data: received } = await supabase
-      .from("contacts")
-      .select(`
-        *,
-        user_profile:profiles!contacts_user_id_fkey(id, username, display_name, avatar_url, is_online)
-      `)
-      .eq("contact_id", user.id)
-      .eq("status", "pending");
-
-    // Fetch pending requests sent
-    const { data: sent } = await supabase
-      .from("contacts")
-      .select(`
-        *,
-        contact_profile:profiles!contacts_contact_id_fkey(id, username, display_name, avatar_url, is_online)
-      `)
-      .eq("user_id", user.id)
-      .eq("status", "pending");
-
-    setContacts(allAccepted);
-    setPendingReceived(received || []);
-    setPendingSent(sent || []);
-    setLoading(false);
-  };
-
-  useEffect(() => {
-    fetchContacts();
-  }, [user]);
-
   const handleAccept = async (contactId: string) => {
-    const { error } = await supabase
-      .from("contacts")
-      .update({ status: "accepted" })
-      .eq("id", contactId);
+    const { error } = await acceptRequest(contactId);
 
     if (error) {
       toast({
@@ -121,15 +38,11 @@ export function ContactsView() {
       });
     } else {
       toast({ title: "Demande acceptée" });
-      fetchContacts();
     }
   };
 
   const handleReject = async (contactId: string) => {
-    const { error } = await supabase
-      .from("contacts")
-      .delete()
-      .eq("id", contactId);
+    const { error } = await removeRequest(contactId);
 
     if (error) {
       toast({
@@ -139,7 +52,6 @@ export function ContactsView() {
       });
     } else {
       toast({ title: "Demande refusée" });
-      fetchContacts();
     }
   };
 
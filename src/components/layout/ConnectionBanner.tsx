@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from "react";
+import { Wifi, WifiOff } from "lucide-react";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+
+export function ConnectionBanner() {
+  const isOnline = useOnlineStatus();
+  const [showReconnected, setShowReconnected] = useState(false);
+  const wasOfflineRef = useRef(false);
+
+  // Briefly confirm the connection is back after an outage
+  useEffect(() => {
+    if (!isOnline) {
+      wasOfflineRef.current = true;
+      setShowReconnected(false);
+      return;
+    }
+
+    if (!wasOfflineRef.current) return;
+    wasOfflineRef.current = false;
+    setShowReconnected(true);
+
+    const timeout = setTimeout(() => setShowReconnected(false), 3000);
+    return () => clearTimeout(timeout);
+  }, [isOnline]);
+
+  if (isOnline && !showReconnected) return null;
+
+  return (
+    <div className="fixed top-2 left-1/2 -translate-x-1/2 z-50 animate-fade-in">
+      <div
+        className={`flex items-center gap-2 px-4 py-2 rounded-full shadow-lg text-sm font-medium ${
+          isOnline ? "bg-primary text-primary-foreground" : "bg-destructive text-destructive-foreground"
+        }`}
+      >
+        {isOnline ? (
+          <>
+            <Wifi className="w-4 h-4" />
+            Connexion rétablie
+          </>
+        ) : (
+          <>
+            <WifiOff className="w-4 h-4" />
+            Hors ligne. Les messages seront envoyés à la reconnexion
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 import { MessageCircle, Users, Disc, Settings } from "lucide-react";
+import { UnreadBadge } from "@/components/chat/UnreadBadge";
 
 type Tab = "chats" | "stories" | "contacts" | "settings";
 
 interface MobileNavProps {
   activeTab: Tab;
   onTabChange: (tab: Tab) => void;
+  unreadCount?: number;
 }
 
-export function MobileNav({ activeTab, onTabChange }: MobileNavProps) {
+export function MobileNav({ activeTab, onTabChange, unreadCount = 0 }: MobileNavProps) {
   const tabs = [
     { id: "chats" as Tab, icon: MessageCircle, label: "Messages" },
     { id: "stories" as Tab, icon: Disc, label: "Statuts" },
@@ -21,13 +23,16 @@ export function MobileNav({ activeTab, onTabChange }: MobileNavProps) {
         <button
           key={tab.id}
           onClick={() => onTabChange(tab.id)}
-          className={`flex flex-col items-center gap-1 px-3 py-2 rounded-lg transition-colors ${
+          className={`relative flex flex-col items-center gap-1 px-3 py-2 rounded-lg transition-colors ${
             activeTab === tab.id
               ? "text-primary"
               : "text-muted-foreground"
           }`}
         >
           <tab.icon className="w-5 h-5" />
+          {tab.id === "chats" && (
+            <UnreadBadge count={unreadCount} className="absolute top-0 right-1" />
+          )}
           <span className="text-[10px] font-medium">{tab.label}</span>
         </button>
       ))}
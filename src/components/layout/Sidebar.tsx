@@ -9,15 +9,17 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { UnreadBadge } from "@/components/chat/UnreadBadge";
 
 type Tab = "chats" | "stories" | "contacts" | "settings";
 
 interface SidebarProps {
   activeTab: Tab;
   onTabChange: (tab: Tab) => void;
+  unreadCount?: number;
 }
 
-export function Sidebar({ activeTab, onTabChange }: SidebarProps) {
+export function Sidebar({ activeTab, onTabChange, unreadCount = 0 }: SidebarProps) {
   const { signOut } = useAuth();
   const { profile } = useProfile();
   const { resolvedTheme, setTheme } = useTheme();
@@ -45,13 +47,16 @@ export function Sidebar({ activeTab, onTabChange }: SidebarProps) {
                 variant="ghost"
                 size="icon"
                 onClick={() => onTabChange(tab.id)}
-                className={`w-10 h-10 ${
+                className={`relative w-10 h-10 ${
                   activeTab === tab.id
                     ? "bg-primary/10 text-primary"
                     : "text-muted-foreground hover:text-foreground"
                 }`}
               >
                 <tab.icon className="w-5 h-5" />
+                {tab.id === "chats" && (
+                  <UnreadBadge count={unreadCount} className="absolute -top-1 -right-1" />
+                )}
               </Button>
             </TooltipTrigger>
             <TooltipContent side="right">
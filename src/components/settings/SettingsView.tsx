@@ -8,7 +8,15 @@ import { useProfile } from "@/hooks/useProfile";
 import { useTheme } from "@/contexts/ThemeContext";
 import { useToast } from "@/hooks/use-toast";
 import { useFileUpload } from "@/hooks/useFileUpload";
+import { UPLOAD_RULES } from "@/lib/data";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  disableNotifications,
+  enableNotifications,
+  notificationsEnabled,
+  notificationsSupported,
+} from "@/lib/notifications";
 
 export function SettingsView() {
   const { profile, updateProfile } = useProfile();
@@ -22,6 +30,10 @@ export function SettingsView() {
   const [bio, setBio] = useState(profile?.bio || "");
   const [status, setStatus] = useState(profile?.status || "");
   const [saving, setSaving] = useState(false);
+  const [notifications, setNotifications] = useState(notificationsEnabled);
+  const [notificationsBlocked, setNotificationsBlocked] = useState(
+    () => notificationsSupported() && Notification.permission === "denied"
+  );
 
   const handleSave = async (field: string, value: string) => {
     setSaving(true);
@@ -53,10 +65,11 @@ export function SettingsView() {
       return;
     }
 
-    if (file.size > 5 * 1024 * 1024) {
+    const { maxBytes } = UPLOAD_RULES.avatars;
+    if (file.size > maxBytes) {
       toast({
         title: "Fichier trop volumineux",
-        description: "La taille maximale est de 5 Mo",
+        description: `La taille maximale est de ${maxBytes / (1024 * 1024)} Mo`,
         variant: "destructive",
       });
       return;
@@ -88,6 +101,26 @@ export function SettingsView() {
     }
   };
 
+  const handleNotificationsChange = async (checked: boolean) => {
+    if (!checked) {
+      disableNotifications();
+      setNotifications(false);
+      return;
+    }
+
+    const permission = await enableNotifications();
+    setNotifications(permission === "granted");
+    setNotificationsBlocked(permission === "denied");
+
+    if (permission === "denied") {
+      toast({
+        title: "Erreur",
+        description: "Les notifications sont bloquées, autorisez-les dans les réglages du navigateur",
+        variant: "destructive",
+      });
+    }
+  };
+
   const themes = [
     { value: "light", icon: Sun, label: "Clair" },
     { value: "dark", icon: Moon, label: "Sombre" },
@@ -263,6 +296,32 @@ export function SettingsView() {
           </div>
         </section>
 
+        {/* Notifications Section */}
+        <section className="space-y-4">
+          <h2 className="text-sm font-semibold text-muted-foreground uppercase">
+            Notifications
+          </h2>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="mention-notifications">Mentions</Label>
+              <p className="text-sm text-muted-foreground">
+                {!notificationsSupported()
+                  ? "Votre navigateur ne prend pas en charge les notifications"
+                  : notificationsBlocked
+                    ? "Bloquées dans les réglages du navigateur"
+                    : "Quand l'application est en arrière-plan"}
+              </p>
+            </div>
+            <Switch
+              id="mention-notifications"
+              checked={notifications}
+              onCheckedChange={handleNotificationsChange}
+              disabled={!notificationsSupported()}
+            />
+          </div>
+        </section>
+
         {/* Theme Section */}
         <section className="space-y-4">
           <h2 className="text-sm font-semibold text-muted-foreground uppercase">
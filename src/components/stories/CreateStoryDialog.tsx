@@ -9,8 +9,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useFileUpload } from "@/hooks/useFileUpload";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
 import { useToast } from "@/hooks/use-toast";
 
 interface CreateStoryDialogProps {
@@ -34,6 +34,7 @@ const BACKGROUND_COLORS = [
 
 export function CreateStoryDialog({ open, onClose, onCreated }: CreateStoryDialogProps) {
   const { user } = useAuth();
+  const { stories } = useRepository();
   const { toast } = useToast();
   const { uploadStoryMedia, uploading } = useFileUpload();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -78,18 +79,18 @@ export function CreateStoryDialog({ open, onClose, onCreated }: CreateStoryDialo
     setCreating(true);
 
     try {
-      let imageUrl = null;
+      let imagePath = null;
 
       if (imageFile) {
         const { data, error } = await uploadStoryMedia(imageFile);
         if (error) throw error;
-        imageUrl = data?.url;
+        imagePath = data?.path;
       }
 
-      const { error } = await supabase.from("stories").insert({
+      const { error } = await stories.create({
         user_id: user.id,
         content: mode === "text" ? content : null,
-        image_url: imageUrl,
+        image_url: imagePath,
         background_color: mode === "text" ? backgroundColor : null,
       });
 
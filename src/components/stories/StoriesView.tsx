@@ -1,47 +1,16 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Plus } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/contexts/AuthContext";
 import { useProfile } from "@/hooks/useProfile";
+import { useStories, GroupedStories, Story } from "@/hooks/useStories";
 import { formatDistanceToNow } from "date-fns";
 import { fr } from "date-fns/locale";
 import { CreateStoryDialog } from "./CreateStoryDialog";
 import { StoryViewer } from "./StoryViewer";
 
-interface Story {
-  id: string;
-  user_id: string;
-  content: string | null;
-  image_url: string | null;
-  background_color: string | null;
-  expires_at: string;
-  created_at: string;
-  user?: {
-    id: string;
-    username: string | null;
-    display_name: string | null;
-    avatar_url: string | null;
-  };
-}
-
-interface GroupedStories {
-  user: {
-    id: string;
-    username: string | null;
-    display_name: string | null;
-    avatar_url: string | null;
-  };
-  stories: Story[];
-  hasViewed: boolean;
-}
-
 export function StoriesView() {
-  const { user } = useAuth();
   const { profile } = useProfile();
-  const [groupedStories, setGroupedStories] = useState<GroupedStories[]>([]);
-  const [myStories, setMyStories] = useState<Story[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { myStories, groupedStories, loading, refetch: fetchStories } = useStories();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [viewingStories, setViewingStories] = useState<{
     stories: Story[];
@@ -49,71 +18,6 @@ export function StoriesView() {
     index: number;
   } | null>(null);
 
-  const fetchStories = async () => {
-    if (!user) return;
-
-    // Fetch all active stories
-    const { data: stories } = await supabase
-      .from("stories")
-      .select(`
-        *,
-        user:profiles!stories_user_id_fkey(id, username, display_name, avatar_url)
-      `)
-      .gt("expires_at", new Date().toISOString())
-      .order("created_at", { ascending: false });
-
-    if (stories) {
-      // Separate my stories
-      const mine = stories.filter((s) => s.user_id === user.id);
-      setMyStories(mine);
-
-      // Group other stories by user
-      const othersStories = stories.filter((s) => s.user_id !== user.id);
-      const grouped: Record<string, GroupedStories> = {};
-
-      othersStories.forEach((story) => {
-        if (story.user) {
-          if (!grouped[story.user_id]) {
-            grouped[story.user_id] = {
-              user: story.user,
-              stories: [],
-              hasViewed: false,
-            };
-          }
-          grouped[story.user_id].stories.push(story);
-        }
-      });
-
-      // Check which stories the user has viewed
-      const storyIds = othersStories.map((s) => s.id);
-      if (storyIds.length > 0) {
-        const { data: views } = await supabase
-          .from("story_views")
-          .select("story_id")
-          .eq("viewer_id", user.id)
-          .in("story_id", storyIds);
-
-        const viewedIds = new Set(views?.map((v) => v.story_id) || []);
-        Object.values(grouped).forEach((g) => {
-          g.hasViewed = g.stories.every((s) => viewedIds.has(s.id));
-        });
-      }
-
-      // Sort: unviewed first
-      const sortedGroups = Object.values(grouped).sort((a, b) => {
-        if (a.hasViewed === b.hasViewed) return 0;
-        return a.hasViewed ? 1 : -1;
-      });
-
-      setGroupedStories(sortedGroups);
-    }
-    setLoading(false);
-  };
-
-  useEffect(() => {
-    fetchStories();
-  }, [user]);
-
   const handleViewMyStories = () => {
     if (myStories.length > 0 && profile) {
       setViewingStories({
@@ -2,8 +2,9 @@ import { useState, useEffect, useCallback } from "react";
 import { X, ChevronLeft, ChevronRight, Eye } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { useSignedUrl } from "@/hooks/useSignedUrl";
 import { formatDistanceToNow } from "date-fns";
 import { fr } from "date-fns/locale";
 
@@ -42,28 +43,21 @@ export function StoryViewer({
   onNextUser,
 }: StoryViewerProps) {
   const { user } = useAuth();
+  const { stories: storyRepository } = useRepository();
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
   const [progress, setProgress] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
 
   const currentStory = stories[currentIndex];
+  const imageUrl = useSignedUrl("stories", currentStory?.image_url);
   const STORY_DURATION = 5000; // 5 seconds per story
 
   // Mark story as viewed
   useEffect(() => {
     if (!user || !currentStory || storyUser.id === user.id) return;
 
-    supabase
-      .from("story_views")
-      .upsert(
-        {
-          story_id: currentStory.id,
-          viewer_id: user.id,
-        },
-        { onConflict: "story_id,viewer_id" }
-      )
-      .then();
-  }, [currentStory, user, storyUser.id]);
+    storyRepository.markViewed(currentStory.id, user.id);
+  }, [storyRepository, currentStory, user, storyUser.id]);
 
   const goToNext = useCallback(() => {
     if (currentIndex < stories.length - 1) {
@@ -211,7 +205,7 @@ export function StoryViewer({
         {/* Story media */}
         {currentStory.image_url ? (
           <img
-            src={currentStory.image_url}
+            src={imageUrl}
             alt="Story"
             className="w-full h-full object-cover"
           />
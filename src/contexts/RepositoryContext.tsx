@@ -0,0 +1,48 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { loadDefaultRepository, Repository } from "@/lib/data";
+
+const RepositoryContext = createContext<Repository | undefined>(undefined);
+
+// Pass a repository to run the app on another backend, e.g. createMemoryRepository() from
+// @/lib/data/memoryRepository in tests. Without one, the backend selected by VITE_DATA_BACKEND is loaded.
+export function RepositoryProvider({ repository, children }: { repository?: Repository; children: ReactNode }) {
+  const [value, setValue] = useState<Repository | null>(repository || null);
+  // Set when the backend module could not be loaded, e.g. offline after a deploy
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (value || failed) return;
+    loadDefaultRepository().then(setValue, (error) => {
+      console.error("Error loading the data backend:", error);
+      setFailed(true);
+    });
+  }, [value, failed]);
+
+  if (failed) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 min-h-screen bg-background">
+        <p className="text-muted-foreground">Impossible de charger l'application</p>
+        <Button onClick={() => setFailed(false)}>Réessayer</Button>
+      </div>
+    );
+  }
+
+  if (!value) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <div className="animate-pulse text-muted-foreground">Chargement...</div>
+      </div>
+    );
+  }
+
+  return <RepositoryContext.Provider value={value}>{children}</RepositoryContext.Provider>;
+}
+
+export function useRepository() {
+  const context = useContext(RepositoryContext);
+  if (context === undefined) {
+    throw new Error("useRepository must be used within a RepositoryProvider");
+  }
+  return context;
+}
@@ -0,0 +1,114 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { ContactLists } from "@/lib/data";
+import { queryKeys } from "@/lib/queryKeys";
+
+export type { Contact } from "@/lib/data";
+
+export function useContacts() {
+  const { user } = useAuth();
+  const { contacts } = useRepository();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.contacts(user?.id);
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await contacts.list(user!.id);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  // Move an accepted request straight to the contact list
+  const acceptMutation = useMutation({
+    mutationFn: async (contactId: string) => {
+      const { error } = await contacts.accept(contactId);
+
+      if (error) throw error;
+    },
+    onMutate: async (contactId) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<ContactLists>(queryKey);
+      const request = previous?.pendingReceived.find((c) => c.id === contactId);
+
+      queryClient.setQueryData<ContactLists>(queryKey, (old) =>
+        old && request
+          ? {
+              ...old,
+              contacts: [
+                ...old.contacts,
+                { ...request, status: "accepted", contact_profile: request.user_profile },
+              ],
+              pendingReceived: old.pendingReceived.filter((c) => c.id !== contactId),
+            }
+          : old
+      );
+      return { previous };
+    },
+    onError: (_error, _contactId, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  // Rejecting a received request and cancelling a sent one both delete it
+  const removeMutation = useMutation({
+    mutationFn: async (contactId: string) => {
+      const { error } = await contacts.remove(contactId);
+
+      if (error) throw error;
+    },
+    onMutate: async (contactId) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<ContactLists>(queryKey);
+
+      queryClient.setQueryData<ContactLists>(queryKey, (old) =>
+        old
+          ? {
+              ...old,
+              pendingReceived: old.pendingReceived.filter((c) => c.id !== contactId),
+              pendingSent: old.pendingSent.filter((c) => c.id !== contactId),
+            }
+          : old
+      );
+      return { previous };
+    },
+    onError: (_error, _contactId, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+    },
+  });
+
+  const acceptRequest = async (contactId: string) => {
+    try {
+      await acceptMutation.mutateAsync(contactId);
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  const removeRequest = async (contactId: string) => {
+    try {
+      await removeMutation.mutateAsync(contactId);
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  const refetch = () => queryClient.invalidateQueries({ queryKey });
+
+  return {
+    contacts: data?.contacts || [],
+    pendingReceived: data?.pendingReceived || [],
+    pendingSent: data?.pendingSent || [],
+    loading: isLoading,
+    acceptRequest,
+    removeRequest,
+    refetch,
+  };
+}
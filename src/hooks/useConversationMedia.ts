@@ -0,0 +1,93 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { AttachmentInfo, Message } from "@/lib/data";
+import { attachmentKindOf, getMessageBody, isAttachmentKind } from "@/lib/messageKinds";
+import { queryKeys } from "@/lib/queryKeys";
+
+export interface MediaItem {
+  message: Message;
+  attachment: AttachmentInfo;
+  // Position of the attachment in its message
+  index: number;
+  kind: "image" | "video";
+}
+
+export interface DocumentItem {
+  message: Message;
+  attachment: AttachmentInfo;
+}
+
+export interface LinkItem {
+  message: Message;
+  url: string;
+}
+
+// The gallery lists the most recent ones, older media are still reachable by scrolling the conversation
+const GALLERY_LIMIT = 500;
+
+const LINK_PATTERN = /https?:\/\/[^\s<>"']+/g;
+
+function attachmentsOf(message: Message) {
+  const body = getMessageBody(message);
+  return body && isAttachmentKind(body.kind) && "attachments" in body
+    ? body.attachments.map((attachment) => ({
+        attachment,
+        // Albums mixing photos and videos are sent as files, each file still shows as what it is
+        kind: body.kind === "file" ? attachmentKindOf({ type: attachment.mime_type || "" }) : body.kind,
+      }))
+    : [];
+}
+
+// Photos and videos of a message, in the order of its album
+export function getMediaItems(message: Message): MediaItem[] {
+  return attachmentsOf(message).flatMap(({ attachment, kind }, index) =>
+    kind === "image" || kind === "video" ? [{ message, attachment, index, kind }] : []
+  );
+}
+
+function getDocuments(message: Message): DocumentItem[] {
+  return attachmentsOf(message)
+    .filter(({ kind }) => kind === "audio" || kind === "file")
+    .map(({ attachment }) => ({ message, attachment }));
+}
+
+function getLinks(message: Message): LinkItem[] {
+  const urls = message.content?.match(LINK_PATTERN) || [];
+  // Trailing punctuation usually ends the sentence rather than the link
+  return [...new Set(urls.map((url) => url.replace(/[.,;:!?)]+$/, "")))].map((url) => ({ message, url }));
+}
+
+// Media, links and documents of a conversation, fetched while the gallery or the viewer is open
+export function useConversationMedia(conversationId: string | null, enabled: boolean) {
+  const { user } = useAuth();
+  const repository = useRepository();
+
+  const { data, isLoading, isFetching } = useQuery({
+    queryKey: queryKeys.media(user?.id, conversationId),
+    queryFn: async () => {
+      const [{ data, error }, { data: hidden }] = await Promise.all([
+        repository.messages.getMedia(conversationId!, GALLERY_LIMIT),
+        repository.messages.getHiddenIds(user!.id, conversationId!),
+      ]);
+
+      if (error) throw error;
+      const hiddenIds = new Set(hidden || []);
+      return data.filter((m) => !hiddenIds.has(m.id));
+    },
+    enabled: !!user && !!conversationId && enabled,
+  });
+
+  // Media are in reading order for the viewer to swipe through, links and documents newest first
+  const gallery = useMemo(
+    () => ({
+      media: [...(data || [])].reverse().flatMap(getMediaItems),
+      documents: (data || []).flatMap(getDocuments),
+      links: (data || []).flatMap(getLinks),
+    }),
+    [data]
+  );
+
+  return { ...gallery, loading: isLoading, fetching: isFetching };
+}
@@ -1,200 +1,283 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useEffect, useCallback, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { Conversation, InboxMessage, InboxRow } from "@/lib/data";
+import { mentionedUserIds } from "@/lib/mentions";
+import { flushOutbox } from "@/lib/outbox";
+import { latestUpdatedAt, readCache, writeCache } from "@/lib/localCache";
+import { queryKeys } from "@/lib/queryKeys";
 
-export interface Conversation {
-  id: string;
-  is_group: boolean;
-  name: string | null;
-  image_url: string | null;
-  created_by: string | null;
-  created_at: string;
-  updated_at: string;
-  members?: ConversationMember[];
-  last_message?: Message | null;
-  other_user?: {
-    id: string;
-    username: string | null;
-    display_name: string | null;
-    avatar_url: string | null;
-    is_online: boolean | null;
-  } | null;
-}
+export type { Conversation, ConversationMember } from "@/lib/data";
+
+function toConversation(row: InboxRow, userId: string): Conversation {
+  const members = row.members || [];
+
+  // For non-group conversations, find the other user
+  const other_user = row.is_group
+    ? null
+    : members.find((m) => m.user_id !== userId)?.profile || null;
 
-export interface ConversationMember {
-  id: string;
-  conversation_id: string;
-  user_id: string;
-  is_admin: boolean;
-  joined_at: string;
-  profile?: {
-    id: string;
-    username: string | null;
-    display_name: string | null;
-    avatar_url: string | null;
-    is_online: boolean | null;
+  return {
+    ...row,
+    members,
+    other_user,
   };
 }
 
-export interface Message {
-  id: string;
-  conversation_id: string;
-  sender_id: string | null;
-  content: string | null;
-  message_type: string;
-  file_url: string | null;
-  file_name: string | null;
-  is_read: boolean;
-  created_at: string;
-  updated_at: string;
+function sortConversations(conversations: Conversation[]) {
+  return [...conversations].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+// Replace the stale copies of the given conversations
+function withConversations(conversations: Conversation[], updated: Conversation[]) {
+  const ids = new Set(updated.map((c) => c.id));
+  return sortConversations([...updated, ...conversations.filter((c) => !ids.has(c.id))]);
 }
 
+function withNewMessage(conversations: Conversation[], message: InboxMessage, userId: string) {
+  return sortConversations(
+    conversations.map((c) => {
+      if (c.id !== message.conversation_id) return c;
+      if (c.last_message && c.last_message.created_at > message.created_at) return c;
+
+      const incoming = message.sender_id !== userId;
+      // Mentions only count in groups, like the message_mentions rows get_inbox counts
+      const mentioned = incoming && c.is_group && mentionedUserIds(message.content).includes(userId);
+      return {
+        ...c,
+        last_message: message,
+        updated_at: message.created_at > c.updated_at ? message.created_at : c.updated_at,
+        unread_count: (c.unread_count || 0) + (incoming ? 1 : 0),
+        unread_mention_count: (c.unread_mention_count || 0) + (mentioned ? 1 : 0),
+      };
+    })
+  );
+}
+
+const NO_CONVERSATIONS: Conversation[] = [];
+
 export function useConversations() {
   const { user } = useAuth();
-  const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  const fetchConversations = async () => {
-    if (!user) {
-      setConversations([]);
-      setLoading(false);
-      return;
-    }
-
-    // Get all conversation IDs the user is part of
-    const { data: memberData } = await supabase
-      .from("conversation_members")
-      .select("conversation_id")
-      .eq("user_id", user.id);
-
-    if (!memberData || memberData.length === 0) {
-      setConversations([]);
-      setLoading(false);
-      return;
-    }
-
-    const conversationIds = memberData.map((m) => m.conversation_id);
-
-    // Fetch conversations with members
-    const { data: convData } = await supabase
-      .from("conversations")
-      .select("*")
-      .in("id", conversationIds)
-      .order("updated_at", { ascending: false });
-
-    if (!convData) {
-      setConversations([]);
-      setLoading(false);
-      return;
-    }
-
-    // Fetch members for each conversation
-    const { data: allMembers } = await supabase
-      .from("conversation_members")
-      .select(`
-        *,
-        profile:profiles(id, username, display_name, avatar_url, is_online)
-      `)
-      .in("conversation_id", conversationIds);
-
-    // Fetch last message for each conversation
-    const conversationsWithDetails = await Promise.all(
-      convData.map(async (conv) => {
-        const members = allMembers?.filter((m) => m.conversation_id === conv.id) || [];
-        
-        const { data: lastMsg } = await supabase
-          .from("messages")
-          .select("*")
-          .eq("conversation_id", conv.id)
-          .order("created_at", { ascending: false })
-          .limit(1)
-          .maybeSingle();
-
-        // For non-group conversations, find the other user
-        let other_user = null;
-        if (!conv.is_group && members.length > 0) {
-          const otherMember = members.find((m) => m.user_id !== user.id);
-          if (otherMember?.profile) {
-            other_user = otherMember.profile;
-          }
-        }
+  const repository = useRepository();
+  const queryClient = useQueryClient();
+  const pendingRefreshRef = useRef<Set<string>>(new Set());
+  const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Realtime events and mutations write straight into the query cache
+  const setConversations = useCallback(
+    (update: (conversations: Conversation[]) => Conversation[]) => {
+      queryClient.setQueryData<Conversation[]>(queryKeys.conversations(user?.id), (old) =>
+        old ? update(old) : old
+      );
+    },
+    [queryClient, user]
+  );
+
+  const fetchConversations = useCallback(async () => {
+    const queryKey = queryKeys.conversations(user!.id);
+    const cached = await readCache<Conversation>("conversations", user!.id);
+    const current = queryClient.getQueryData<Conversation[]>(queryKey) || cached?.items;
+
+    // With a cache, only conversations that changed since the last sync are returned
+    const since = current ? cached?.synced_at || undefined : undefined;
+    const { data, error } = await repository.conversations.getInbox({ since });
+    if (error) throw error;
+
+    const fetched = data.map((row) => toConversation(row, user!.id));
+    return since && current ? withConversations(current, fetched) : fetched;
+  }, [queryClient, repository, user]);
+
+  // Realtime keeps the inbox fresh, only catch up after being offline
+  const {
+    data: conversations = NO_CONVERSATIONS,
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: queryKeys.conversations(user?.id),
+    queryFn: fetchConversations,
+    enabled: !!user,
+    staleTime: Infinity,
+    refetchOnReconnect: "always",
+  });
+
+  // Show the cached inbox right away, it stays readable offline
+  useEffect(() => {
+    if (!user) return;
+
+    const queryKey = queryKeys.conversations(user.id);
+    readCache<Conversation>("conversations", user.id).then((cached) => {
+      if (cached && !queryClient.getQueryData(queryKey)) {
+        queryClient.setQueryData(queryKey, cached.items);
+      }
+    });
+  }, [queryClient, user]);
+
+  // Keep the inbox cached for instant and offline rendering
+  useEffect(() => {
+    if (!user || conversations === NO_CONVERSATIONS) return;
 
-        return {
-          ...conv,
-          members: members.map((m) => ({
-            ...m,
-            profile: m.profile,
-          })),
-          last_message: lastMsg,
-          other_user,
-        } as Conversation;
-      })
+    const lastMessages = conversations.flatMap((c) => (c.last_message ? [c.last_message] : []));
+    writeCache(
+      "conversations",
+      user.id,
+      conversations,
+      latestUpdatedAt([...conversations, ...lastMessages])
     );
+  }, [conversations, user]);
 
-    setConversations(conversationsWithDetails);
-    setLoading(false);
-  };
+  const mergeConversations = useCallback(
+    async (conversationIds: string[]) => {
+      const { data } = await repository.conversations.getInbox({ conversationIds });
+      if (data && user) {
+        const fetched = data.map((row) => toConversation(row, user.id));
+        setConversations((prev) => withConversations(prev, fetched));
+      }
+    },
+    [repository, user, setConversations]
+  );
+
+  // Batch refreshes of single conversations, e.g. the receipts of a whole conversation being read
+  const refreshConversation = useCallback(
+    (conversationId: string) => {
+      pendingRefreshRef.current.add(conversationId);
+      if (refreshTimeoutRef.current) return;
+
+      refreshTimeoutRef.current = setTimeout(() => {
+        const conversationIds = [...pendingRefreshRef.current];
+        pendingRefreshRef.current.clear();
+        refreshTimeoutRef.current = null;
+        mergeConversations(conversationIds);
+      }, 300);
+    },
+    [mergeConversations]
+  );
 
   useEffect(() => {
-    fetchConversations();
+    if (!user) return;
+
+    const queryKey = queryKeys.conversations(user.id);
+    const pendingRefresh = pendingRefreshRef.current;
+    const isKnown = (conversationId: string) =>
+      !!queryClient.getQueryData<Conversation[]>(queryKey)?.some((c) => c.id === conversationId);
 
-    // Subscribe to realtime updates
-    const channel = supabase
+    // Messages received while the app was closed are now delivered
+    const markDelivered = () => {
+      repository.conversations.markMessagesDelivered();
+    };
+    markDelivered();
+
+    // Messages written offline are sent once the connection returns, for every conversation
+    const handleOnline = () => flushOutbox(repository, user.id);
+    window.addEventListener("online", handleOnline);
+
+    // Apply realtime changes to the affected conversation only
+    const channel = repository.realtime
       .channel("conversations-changes")
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "messages" },
-        () => {
-          fetchConversations();
+      .onChange(
+        { event: "INSERT", table: "messages" },
+        (change) => {
+          const message = change.new as InboxMessage;
+          if (message.sender_id !== user.id) markDelivered();
+
+          if (isKnown(message.conversation_id)) {
+            setConversations((prev) => withNewMessage(prev, message, user.id));
+          } else {
+            refreshConversation(message.conversation_id);
+          }
         }
       )
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "conversations" },
-        () => {
-          fetchConversations();
+      .onChange(
+        { event: "UPDATE", table: "messages" },
+        (change) => {
+          const message = change.new as InboxMessage;
+          setConversations((prev) =>
+            prev.map((c) =>
+              c.last_message?.id === message.id ? { ...c, last_message: { ...c.last_message, ...message } } : c
+            )
+          );
+        }
+      )
+      .onChange(
+        { event: "UPDATE", table: "conversations" },
+        (change) => {
+          const updated = change.new as Conversation;
+          setConversations((prev) =>
+            sortConversations(
+              prev.map((c) =>
+                c.id === updated.id
+                  ? {
+                      ...c,
+                      name: updated.name,
+                      image_url: updated.image_url,
+                      updated_at: updated.updated_at,
+                    }
+                  : c
+              )
+            )
+          );
+        }
+      )
+      .onChange(
+        { event: "INSERT", table: "conversation_members" },
+        (change) => {
+          // A conversation we were added to, or a new member in one of ours
+          refreshConversation(change.new.conversation_id);
+        }
+      )
+      .onChange(
+        {
+          event: "UPDATE",
+          table: "message_receipts",
+          filter: { column: "user_id", value: user.id },
+        },
+        (change) => {
+          if (change.new.read_at) refreshConversation(change.new.conversation_id);
+        }
+      )
+      .onChange(
+        {
+          event: "INSERT",
+          table: "hidden_messages",
+          filter: { column: "user_id", value: user.id },
+        },
+        (change) => {
+          // The preview falls back to the previous visible message
+          const conversation = queryClient
+            .getQueryData<Conversation[]>(queryKey)
+            ?.find((c) => c.last_message?.id === change.new.message_id);
+          if (conversation) refreshConversation(conversation.id);
         }
       )
       .subscribe();
 
     return () => {
-      supabase.removeChannel(channel);
+      channel.unsubscribe();
+      window.removeEventListener("online", handleOnline);
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current);
+        refreshTimeoutRef.current = null;
+        pendingRefresh.clear();
+      }
     };
-  }, [user]);
+  }, [repository, user, queryClient, setConversations, refreshConversation]);
 
   const createConversation = async (memberIds: string[], isGroup = false, name?: string) => {
     if (!user) return { error: new Error("Not authenticated"), data: null };
 
-    // Create conversation
-    const { data: conv, error: convError } = await supabase
-      .from("conversations")
-      .insert({
-        is_group: isGroup,
-        name: isGroup ? name : null,
-        created_by: user.id,
-      })
-      .select()
-      .single();
-
-    if (convError || !conv) return { error: convError, data: null };
-
-    // Add members
-    const allMemberIds = [...new Set([user.id, ...memberIds])];
-    const members = allMemberIds.map((id) => ({
-      conversation_id: conv.id,
-      user_id: id,
-      is_admin: id === user.id,
-    }));
-
-    const { error: membersError } = await supabase
-      .from("conversation_members")
-      .insert(members);
-
-    if (membersError) return { error: membersError, data: null };
-
-    await fetchConversations();
+    // Create the conversation with its members
+    const { data: conv, error } = await repository.conversations.create({
+      createdBy: user.id,
+      memberIds,
+      isGroup,
+      name: isGroup ? name || null : null,
+    });
+
+    if (error || !conv) return { error, data: null };
+
+    await mergeConversations([conv.id]);
     return { error: null, data: conv };
   };
 
-  return { conversations, loading, createConversation, refetch: fetchConversations };
+  return { conversations, loading: isLoading, createConversation, refetch };
 }
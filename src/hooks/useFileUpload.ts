@@ -1,21 +1,35 @@
-import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useRef, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { AttachmentInfo, StorageBucket } from "@/lib/data";
+import { ImageCompressionOptions, prepareImage } from "@/lib/images";
+import { prepareVideo } from "@/lib/videos";
 
 interface UploadResult {
-  url: string;
+  // Within the bucket
+  path: string;
   fileName: string;
   fileType: string;
 }
 
-export function useFileUpload() {
+const percentOf = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 100);
+
+// Photos are compressed before upload, see prepareImage for the defaults
+export function useFileUpload(compression?: ImageCompressionOptions) {
   const { user } = useAuth();
+  const { storage } = useRepository();
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
+  // Percentage of each file of the album being uploaded, queued files are at 0
+  const [fileProgress, setFileProgress] = useState<Map<File, number>>(new Map());
+  const controllersRef = useRef(new Map<File, AbortController>());
+
+  // Random names so files uploaded together never overwrite each other
+  const storagePathFor = (file: File) => `${user!.id}/${crypto.randomUUID()}.${file.name.split(".").pop()}`;
 
   const uploadFile = async (
     file: File,
-    bucket: "chat-attachments" | "avatars" | "stories"
+    bucket: StorageBucket
   ): Promise<{ data: UploadResult | null; error: Error | null }> => {
     if (!user) {
       return { data: null, error: new Error("Not authenticated") };
@@ -25,29 +39,17 @@ export function useFileUpload() {
     setProgress(0);
 
     try {
-      const fileExt = file.name.split(".").pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from(bucket)
-        .upload(fileName, file, {
-          cacheControl: "3600",
-          upsert: false,
-        });
+      const { data: path, error: uploadError } = await storage.upload(bucket, storagePathFor(file), file, {
+        onProgress: (uploaded, total) => setProgress(percentOf(uploaded, total)),
+      });
 
       if (uploadError) {
         throw uploadError;
       }
 
-      const { data: { publicUrl } } = supabase.storage
-        .from(bucket)
-        .getPublicUrl(fileName);
-
-      setProgress(100);
-      
       return {
         data: {
-          url: publicUrl,
+          path,
           fileName: file.name,
           fileType: file.type,
         },
@@ -60,15 +62,112 @@ export function useFileUpload() {
     }
   };
 
-  const uploadAvatar = (file: File) => uploadFile(file, "avatars");
-  const uploadChatAttachment = (file: File) => uploadFile(file, "chat-attachments");
-  const uploadStoryMedia = (file: File) => uploadFile(file, "stories");
+  // Upload the files of an album one after the other, removing the uploaded ones if any fails.
+  // Files cancelled with cancelUpload are left out of the result.
+  const uploadChatAttachments = async (
+    files: File[]
+  ): Promise<{ data: AttachmentInfo[] | null; error: Error | null }> => {
+    if (!user) {
+      return { data: null, error: new Error("Not authenticated") };
+    }
+
+    setUploading(true);
+    setProgress(0);
+    setFileProgress(new Map(files.map((file) => [file, 0])));
+    files.forEach((file) => controllersRef.current.set(file, new AbortController()));
+
+    const attachments: AttachmentInfo[] = [];
+
+    try {
+      for (const [index, file] of files.entries()) {
+        const { signal } = controllersRef.current.get(file)!;
+        if (signal.aborted) continue;
+
+        const { data: image, error: imageError } = await prepareImage(file, compression);
+        if (imageError) throw imageError;
+        const video = image ? null : await prepareVideo(file);
+        const upload = image?.file || file;
+
+        // Compression changes the size, so the overall progress counts files rather than bytes
+        const { data: path, error: uploadError } = await storage.upload(
+          "chat-attachments",
+          storagePathFor(upload),
+          upload,
+          {
+            signal,
+            onProgress: (uploaded, total) => {
+              setFileProgress((prev) => new Map(prev).set(file, percentOf(uploaded, total)));
+              setProgress(percentOf(index + (total > 0 ? uploaded / total : 1), files.length));
+            },
+          }
+        );
+
+        if (signal.aborted) {
+          // The upload may have completed just before the cancellation
+          if (path) await storage.remove("chat-attachments", path);
+          continue;
+        }
+
+        if (uploadError) {
+          throw uploadError;
+        }
+
+        // The player falls back to the first frame of the video if the poster fails to upload
+        let posterPath: string | null = null;
+        if (video) {
+          const { data, error } = await storage.upload("chat-attachments", storagePathFor(video.poster), video.poster);
+          if (!error) posterPath = data;
+        }
+
+        // The url columns hold storage paths, read through signed URLs
+        attachments.push({
+          url: path,
+          file_name: upload.name,
+          mime_type: upload.type || null,
+          size_bytes: upload.size,
+          width: image?.width ?? video?.width ?? null,
+          height: image?.height ?? video?.height ?? null,
+          placeholder: image?.placeholder ?? video?.placeholder ?? null,
+          duration_ms: video?.durationMs ?? null,
+          waveform: null,
+          poster_url: posterPath,
+        });
+      }
+
+      return { data: attachments, error: null };
+    } catch (error) {
+      const paths = attachments.flatMap((a) => [a.url, a.poster_url]).filter(Boolean);
+      await Promise.all(paths.map((path) => storage.remove("chat-attachments", path)));
+      return { data: null, error: error as Error };
+    } finally {
+      controllersRef.current.clear();
+      setFileProgress(new Map());
+      setUploading(false);
+    }
+  };
+
+  const cancelUpload = (file: File) => {
+    controllersRef.current.get(file)?.abort();
+  };
+
+  // Avatars are public, the profile stores their URL
+  const uploadAvatar = async (file: File) => {
+    const { data, error } = await uploadFile(file, "avatars");
+    return { data: data && { ...data, url: storage.getPublicUrl("avatars", data.path) }, error };
+  };
+  const uploadStoryMedia = async (file: File) => {
+    const { data: image, error } = await prepareImage(file, compression);
+    if (error) return { data: null, error };
+    return uploadFile(image?.file || file, "stories");
+  };
 
   return {
     uploading,
     progress,
+    fileProgress,
     uploadAvatar,
-    uploadChatAttachment,
+    uploadChatAttachments,
+    cancelUpload,
     uploadStoryMedia,
   };
 }
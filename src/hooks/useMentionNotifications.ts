@@ -0,0 +1,70 @@
+import { useEffect, useRef } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { useToast } from "@/hooks/use-toast";
+import { Conversation } from "@/hooks/useConversations";
+import { InboxMessage } from "@/lib/data";
+import { mentionedUserIds, mentionsToText } from "@/lib/mentions";
+import { notificationsEnabled } from "@/lib/notifications";
+
+// Tells the user they were mentioned in a group they are not reading, whatever else is going on there.
+// A system notification when the app is in the background and notifications are turned on in the settings,
+// a toast otherwise.
+export function useMentionNotifications(
+  conversations: Conversation[],
+  openConversationId: string | null,
+  onOpen: (conversationId: string, messageId: string) => void
+) {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const { toast } = useToast();
+
+  // Read by the realtime handler without resubscribing on every change
+  const latestRef = useRef({ conversations, openConversationId, onOpen });
+  latestRef.current = { conversations, openConversationId, onOpen };
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = repository.realtime
+      .channel("mention-notifications")
+      .onChange({ event: "INSERT", table: "messages" }, (change) => {
+        const message = change.new as InboxMessage;
+        if (message.sender_id === user.id || !mentionedUserIds(message.content).includes(user.id)) return;
+
+        const { conversations, openConversationId, onOpen } = latestRef.current;
+        const conversation = conversations.find((c) => c.id === message.conversation_id);
+        if (!conversation?.is_group) return;
+
+        const hidden = document.visibilityState === "hidden";
+        if (message.conversation_id === openConversationId && !hidden) return;
+
+        const sender = conversation.members?.find((m) => m.user_id === message.sender_id)?.profile;
+        const title = `@ ${sender?.display_name || sender?.username || "Quelqu'un"} vous a mentionné`;
+        const body = `${conversation.name} : ${mentionsToText(message.content || "")}`;
+        const open = () => onOpen(message.conversation_id, message.id);
+
+        if (hidden && notificationsEnabled()) {
+          // Chrome on Android only shows notifications through a service worker, the constructor throws there
+          try {
+            const notification = new Notification(title, { body, tag: message.id });
+            notification.onclick = () => {
+              window.focus();
+              open();
+              notification.close();
+            };
+            return;
+          } catch {
+            // Falls back to the toast
+          }
+        }
+
+        toast({ title, description: body, onClick: open, className: "cursor-pointer" });
+      })
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [repository, toast, user]);
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { MessageSearchHit } from "@/lib/data";
+import { queryKeys } from "@/lib/queryKeys";
+import { MIN_SEARCH_LENGTH } from "@/lib/search";
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SEARCH_LIMIT = 100;
+
+const NO_HITS: MessageSearchHit[] = [];
+
+// Messages matching the search, newest first, in every conversation or in the given one
+export function useMessageSearch(query: string, conversationId?: string) {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const trimmed = query.trim();
+  const [debouncedQuery, setDebouncedQuery] = useState(trimmed);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(trimmed), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [trimmed]);
+
+  const active = trimmed.length >= MIN_SEARCH_LENGTH;
+  const { data, isFetching } = useQuery({
+    queryKey: queryKeys.search(user?.id, conversationId ?? null, debouncedQuery),
+    queryFn: async () => {
+      const { data, error } = await repository.messages.search(debouncedQuery, {
+        conversationId,
+        limit: SEARCH_LIMIT,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && debouncedQuery.length >= MIN_SEARCH_LENGTH,
+    // The previous results stay on screen while the next search runs
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    hits: active && data ? data : NO_HITS,
+    searching: active && (isFetching || trimmed !== debouncedQuery),
+  };
+}
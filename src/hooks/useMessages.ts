@@ -1,116 +1,761 @@
-import { useState, useEffect, useCallback } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { Message, MessageReaction, MessageReceipt, ReplyToMessage } from "@/lib/data";
+import {
+  OutboxEntry,
+  deleteOutboxEntry,
+  deliverOutboxEntry,
+  getOutboxEntries,
+  putOutboxEntry,
+} from "@/lib/outbox";
+import { latestUpdatedAt, readCache, writeCache } from "@/lib/localCache";
+import { MessageBody, getMessageBody, toMessageColumns } from "@/lib/messageKinds";
+import { queryKeys } from "@/lib/queryKeys";
 
-export interface Message {
-  id: string;
-  conversation_id: string;
-  sender_id: string | null;
-  content: string | null;
-  message_type: string;
-  file_url: string | null;
-  file_name: string | null;
-  is_read: boolean;
-  created_at: string;
-  updated_at: string;
-  sender?: {
-    id: string;
-    username: string | null;
-    display_name: string | null;
-    avatar_url: string | null;
-  } | null;
+export type { Message, MessageEdit, MessageReaction, MessageReceipt, ReplyToMessage } from "@/lib/data";
+
+export type MessageStatus = "pending" | "failed" | "sent" | "delivered" | "read";
+
+// A message is delivered/read once every recipient has received/read it
+export function getMessageStatus(message: Message): MessageStatus {
+  if (message.local_status) return message.local_status;
+
+  const receipts = message.receipts || [];
+  if (receipts.length === 0) return "sent";
+  if (receipts.every((r) => r.read_at)) return "read";
+  if (receipts.every((r) => r.delivered_at)) return "delivered";
+  return "sent";
+}
+
+// Must match the window enforced by the handle_message_edit trigger
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export function canEditMessage(message: Message) {
+  return (
+    message.message_type === "text" &&
+    !message.deleted_at &&
+    Date.now() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MS
+  );
+}
+
+export const MESSAGES_PAGE_SIZE = 50;
+
+interface MessagesData {
+  messages: Message[];
+  hasMore: boolean;
+  // Set while the messages around an older one are shown instead of the latest ones
+  hasNewer?: boolean;
+}
+
+const NO_MESSAGES: Message[] = [];
+
+interface ReactionToggle {
+  messageId: string;
+  emoji: string;
+  existing?: MessageReaction;
+}
+
+// Replace the user's previous reaction on the message, if any
+function withReaction(messages: Message[], reaction: MessageReaction) {
+  return messages.map((m) =>
+    m.id === reaction.message_id
+      ? {
+          ...m,
+          reactions: [
+            ...(m.reactions || []).filter((r) => r.id !== reaction.id && r.user_id !== reaction.user_id),
+            reaction,
+          ],
+        }
+      : m
+  );
+}
+
+// Insert a message keeping chronological order and ignoring duplicates,
+// the server copy replaces the optimistic one sharing its id
+function withMessage(messages: Message[], message: Message) {
+  const existing = messages.find((m) => m.id === message.id);
+  if (existing) {
+    if (!existing.local_status || message.local_status) return messages;
+    messages = messages.filter((m) => m !== existing);
+  }
+
+  const index = messages.findIndex((m) => m.created_at > message.created_at);
+  if (index === -1) return [...messages, message];
+  return [...messages.slice(0, index), message, ...messages.slice(index)];
+}
+
+function withReceipt(messages: Message[], receipt: MessageReceipt) {
+  return messages.map((m) =>
+    m.id === receipt.message_id
+      ? {
+          ...m,
+          receipts: [...(m.receipts || []).filter((r) => r.id !== receipt.id), receipt],
+        }
+      : m
+  );
+}
+
+// Refresh the quotes of an edited or deleted message
+function withQuoteUpdated(messages: Message[], updated: Message) {
+  return messages.map((m) =>
+    m.reply_to?.id === updated.id
+      ? {
+          ...m,
+          reply_to: {
+            ...m.reply_to,
+            content: updated.content,
+            file_url: updated.file_url,
+            file_name: updated.file_name,
+            deleted_at: updated.deleted_at,
+          },
+        }
+      : m
+  );
+}
+
+function withLocalStatus(messages: Message[], messageId: string, status: Message["local_status"]) {
+  return messages.map((m) => (m.id === messageId ? { ...m, local_status: status } : m));
+}
+
+function toOptimisticMessage({ failed, attachments, ...entry }: OutboxEntry, replyTo?: ReplyToMessage | null): Message {
+  return {
+    ...entry,
+    attachments: (attachments || []).map((attachment, position) => ({
+      ...attachment,
+      id: `${entry.id}-${position}`,
+      message_id: entry.id,
+      position,
+      created_at: entry.created_at,
+    })),
+    edited_at: null,
+    deleted_at: null,
+    updated_at: entry.created_at,
+    sender: null,
+    reply_to: replyTo || null,
+    reactions: [],
+    receipts: [],
+    local_status: failed ? "failed" : "pending",
+  };
+}
+
+// DELETE payloads only carry the primary key, so look the reaction up by id
+function withoutReaction(messages: Message[], reactionId: string) {
+  return messages.map((m) =>
+    m.reactions?.some((r) => r.id === reactionId)
+      ? { ...m, reactions: m.reactions.filter((r) => r.id !== reactionId) }
+      : m
+  );
 }
 
 export function useMessages(conversationId: string | null) {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [loading, setLoading] = useState(true);
+  const repository = useRepository();
+  const queryClient = useQueryClient();
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const hiddenIdsRef = useRef<Set<string>>(new Set());
 
-  const fetchMessages = useCallback(async () => {
-    if (!conversationId || !user) {
-      setMessages([]);
-      setLoading(false);
-      return;
+  // Realtime events and mutations write straight into the query cache
+  const setMessages = useCallback(
+    (update: (messages: Message[]) => Message[]) => {
+      queryClient.setQueryData<MessagesData>(queryKeys.messages(user?.id, conversationId), (old) =>
+        old ? { ...old, messages: update(old.messages) } : old
+      );
+    },
+    [queryClient, user, conversationId]
+  );
+
+  // Fetch one page of messages older than the given one, newest first
+  const fetchPage = useCallback(
+    (before?: Message) => repository.messages.getPage(conversationId!, { before, limit: MESSAGES_PAGE_SIZE }),
+    [repository, conversationId]
+  );
+
+  // Bring cached messages up to date: rows changed since the last sync, fresh reactions and receipts for the rest
+  const syncCachedMessages = useCallback(
+    async (cached: Message[], since: string) => {
+      const { data: changed } = await repository.messages.getChangedSince(conversationId!, since, MESSAGES_PAGE_SIZE);
+
+      // Too far behind, reloading the latest page is cheaper
+      if (!changed || changed.length === MESSAGES_PAGE_SIZE) return null;
+
+      const ids = cached.map((m) => m.id);
+      const [{ data: reactions }, { data: receipts }] = await Promise.all([
+        repository.messages.getReactions(ids),
+        repository.messages.getReceipts(ids),
+      ]);
+      if (!reactions || !receipts) return null;
+
+      const refreshed = cached.map((m) => ({
+        ...m,
+        reactions: reactions.filter((r) => r.message_id === m.id),
+        receipts: receipts.filter((r) => r.message_id === m.id),
+      }));
+
+      return changed.reduce(
+        (acc, message) =>
+          withMessage(withQuoteUpdated(acc.filter((m) => m.id !== message.id), message), message),
+        refreshed
+      );
+    },
+    [repository, conversationId]
+  );
+
+  // Cached messages plus what is still waiting in the outbox
+  const readLocalMessages = useCallback(async () => {
+    const [cached, outbox] = await Promise.all([
+      readCache<Message>("messages", `${user!.id}:${conversationId}`),
+      getOutboxEntries(conversationId!),
+    ]);
+
+    const withQueued = (loaded: Message[]) =>
+      outbox
+        .filter((entry) => entry.sender_id === user!.id)
+        .map((entry) => toOptimisticMessage(entry, loaded.find((m) => m.id === entry.reply_to_id)))
+        .reduce(withMessage, loaded);
+
+    return { cached, withQueued };
+  }, [user, conversationId]);
+
+  const fetchMessages = useCallback(async (): Promise<MessagesData> => {
+    const { cached, withQueued } = await readLocalMessages();
+    const current = queryClient.getQueryData<MessagesData>(queryKeys.messages(user!.id, conversationId));
+    // Refetches keep the messages jumped to, showLatest goes back to the latest ones
+    if (current?.hasNewer) return current;
+
+    const base = current?.messages.filter((m) => !m.local_status) || cached?.items;
+
+    const [synced, { data: hidden }] = await Promise.all([
+      base && cached?.synced_at ? syncCachedMessages(base, cached.synced_at) : null,
+      // Messages the user deleted for themselves only
+      repository.messages.getHiddenIds(user!.id, conversationId!),
+    ]);
+
+    let loaded = synced;
+    let hasMore = current?.hasMore ?? (base?.length || 0) >= MESSAGES_PAGE_SIZE;
+    if (!loaded) {
+      const { data, error } = await fetchPage();
+      if (error) throw error;
+      loaded = data.reverse();
+      hasMore = data.length === MESSAGES_PAGE_SIZE;
+    }
+
+    hiddenIdsRef.current = new Set(hidden || []);
+    // Jumped to older messages meanwhile
+    const jumped = queryClient.getQueryData<MessagesData>(queryKeys.messages(user!.id, conversationId));
+    if (jumped?.hasNewer) return jumped;
+
+    return {
+      messages: withQueued(loaded.filter((m) => !hiddenIdsRef.current.has(m.id))),
+      hasMore,
+    };
+  }, [queryClient, repository, user, conversationId, readLocalMessages, syncCachedMessages, fetchPage]);
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: queryKeys.messages(user?.id, conversationId),
+    queryFn: fetchMessages,
+    enabled: !!conversationId && !!user,
+    refetchOnReconnect: "always",
+  });
+  const messages = data?.messages || NO_MESSAGES;
+  const hasMore = data?.hasMore || false;
+  const hasNewer = data?.hasNewer || false;
+
+  // Render the cached messages right away, they stay readable offline
+  useEffect(() => {
+    if (!conversationId || !user) return;
+
+    const queryKey = queryKeys.messages(user.id, conversationId);
+    readLocalMessages().then(({ cached, withQueued }) => {
+      if (cached && !queryClient.getQueryData(queryKey)) {
+        queryClient.setQueryData<MessagesData>(queryKey, {
+          messages: withQueued(cached.items),
+          hasMore: cached.items.length >= MESSAGES_PAGE_SIZE,
+        });
+      }
+    });
+  }, [queryClient, conversationId, user, readLocalMessages]);
+
+  // Keep the latest page cached for instant and offline rendering
+  useEffect(() => {
+    if (!data || data.hasNewer || !conversationId || !user) return;
+
+    const stored = data.messages.filter((m) => !m.local_status).slice(-MESSAGES_PAGE_SIZE);
+    writeCache("messages", `${user.id}:${conversationId}`, stored, latestUpdatedAt(stored));
+  }, [data, conversationId, user]);
+
+  // Resolves to true when older messages were added
+  const loadOlder = useCallback(async () => {
+    if (!conversationId || !user || !hasMore || loadingOlder || messages.length === 0) return false;
+
+    setLoadingOlder(true);
+    const { data: page } = await fetchPage(messages[0]);
+    let loaded = false;
+
+    if (page) {
+      const older = page.filter((m) => !hiddenIdsRef.current.has(m.id)).reverse();
+      queryClient.setQueryData<MessagesData>(queryKeys.messages(user.id, conversationId), (old) =>
+        old
+          ? { messages: older.reduce(withMessage, old.messages), hasMore: page.length === MESSAGES_PAGE_SIZE }
+          : old
+      );
+      loaded = older.length > 0;
     }
+    setLoadingOlder(false);
+    return loaded;
+  }, [queryClient, conversationId, user, hasMore, loadingOlder, messages, fetchPage]);
+
+  // Resolves to true when newer messages were added, hasNewer is cleared once the latest ones are reached
+  const loadNewer = useCallback(async () => {
+    if (!conversationId || !user || !hasNewer || loadingNewer || messages.length === 0) return false;
+
+    setLoadingNewer(true);
+    const { data: page } = await repository.messages.getNewerPage(conversationId, {
+      after: messages[messages.length - 1],
+      limit: MESSAGES_PAGE_SIZE,
+    });
+    let loaded = false;
 
-    const { data } = await supabase
-      .from("messages")
-      .select(`
-        *,
-        sender:profiles!messages_sender_id_fkey(id, username, display_name, avatar_url)
-      `)
-      .eq("conversation_id", conversationId)
-      .order("created_at", { ascending: true });
-
-    if (data) {
-      setMessages(data as Message[]);
+    if (page) {
+      const newer = page.filter((m) => !hiddenIdsRef.current.has(m.id));
+      queryClient.setQueryData<MessagesData>(queryKeys.messages(user.id, conversationId), (old) =>
+        old
+          ? { ...old, messages: newer.reduce(withMessage, old.messages), hasNewer: page.length === MESSAGES_PAGE_SIZE }
+          : old
+      );
+      loaded = newer.length > 0;
     }
-    setLoading(false);
-  }, [conversationId, user]);
+    setLoadingNewer(false);
+    return loaded;
+  }, [queryClient, repository, conversationId, user, hasNewer, loadingNewer, messages]);
+
+  // Show the messages around one that is not loaded, in place of the loaded ones. Resolves to false when
+  // the message cannot be shown.
+  const jumpToMessage = useCallback(
+    async (messageId: string) => {
+      if (!conversationId || !user) return false;
+
+      const { data: around } = await repository.messages.getPageAround(conversationId, messageId, MESSAGES_PAGE_SIZE);
+      if (!around || hiddenIdsRef.current.has(messageId)) return false;
+
+      const visible = around.messages.filter((m) => !hiddenIdsRef.current.has(m.id));
+      const { withQueued } = await readLocalMessages();
+      queryClient.setQueryData<MessagesData>(queryKeys.messages(user.id, conversationId), {
+        // Queued messages come after the latest ones
+        messages: around.hasNewer ? visible : withQueued(visible),
+        hasMore: around.hasOlder,
+        hasNewer: around.hasNewer,
+      });
+      return true;
+    },
+    [queryClient, repository, conversationId, user, readLocalMessages]
+  );
+
+  // Back to the latest messages after jumping to an older one
+  const showLatest = useCallback(async () => {
+    if (!conversationId || !user) return;
 
+    const [{ data: page }, { withQueued }] = await Promise.all([fetchPage(), readLocalMessages()]);
+    if (!page) return;
+
+    const latest = page.filter((m) => !hiddenIdsRef.current.has(m.id)).reverse();
+    queryClient.setQueryData<MessagesData>(queryKeys.messages(user.id, conversationId), {
+      messages: withQueued(latest),
+      hasMore: page.length === MESSAGES_PAGE_SIZE,
+    });
+  }, [queryClient, conversationId, user, fetchPage, readLocalMessages]);
+
+  // Insert an outbox entry and swap the optimistic message for the stored one
+  const deliver = useCallback(
+    async (entry: OutboxEntry) => {
+      const { error, failed } = await deliverOutboxEntry(repository, entry);
+
+      if (error) {
+        if (failed) setMessages((prev) => withLocalStatus(prev, entry.id, "failed"));
+        return { error };
+      }
+
+      const { data } = await repository.messages.get(entry.id);
+      if (data) {
+        setMessages((prev) => withMessage(prev, data));
+      }
+      return { error: null };
+    },
+    [repository, setMessages]
+  );
+
+  // Send what was queued for this conversation when it is opened. Once the connection returns,
+  // useConversations flushes the whole outbox and the realtime insert replaces the optimistic message.
   useEffect(() => {
-    fetchMessages();
+    if (!conversationId || !user) return;
+
+    const flush = async () => {
+      const entries = await getOutboxEntries(conversationId);
+      for (const entry of entries) {
+        if (entry.failed || entry.sender_id !== user.id) continue;
+        await deliver(entry);
+      }
+    };
+
+    if (navigator.onLine) flush();
+  }, [conversationId, user, deliver]);
 
+  useEffect(() => {
     if (!conversationId) return;
 
-    // Subscribe to new messages
-    const channel = supabase
+    // Subscribe to new, edited and deleted messages
+    const channel = repository.realtime
       .channel(`messages-${conversationId}`)
-      .on(
-        "postgres_changes",
+      .onChange(
         {
           event: "INSERT",
-          schema: "public",
           table: "messages",
-          filter: `conversation_id=eq.${conversationId}`,
+          filter: { column: "conversation_id", value: conversationId },
+        },
+        async (change) => {
+          // Fetch the complete message with sender and quoted message info
+          const { data } = await repository.messages.get(change.new.id);
+          // Away from the latest messages, loadNewer picks it up in order
+          const shown = queryClient.getQueryData<MessagesData>(queryKeys.messages(user?.id, conversationId));
+
+          if (data && !shown?.hasNewer) {
+            setMessages((prev) => withMessage(prev, data));
+          }
+        }
+      )
+      .onChange(
+        {
+          event: "UPDATE",
+          table: "messages",
+          filter: { column: "conversation_id", value: conversationId },
         },
-        async (payload) => {
-          // Fetch the complete message with sender info
-          const { data } = await supabase
-            .from("messages")
-            .select(`
-              *,
-              sender:profiles!messages_sender_id_fkey(id, username, display_name, avatar_url)
-            `)
-            .eq("id", payload.new.id)
-            .single();
+        (change) => {
+          const updated = change.new as Message;
+
+          // Keep joined sender/quote data, and refresh quotes of the edited message
+          setMessages((prev) =>
+            withQuoteUpdated(
+              prev.map((m) =>
+                m.id === updated.id
+                  ? {
+                      ...m,
+                      ...updated,
+                      sender: m.sender,
+                      reply_to: m.reply_to,
+                      reactions: m.reactions,
+                      receipts: m.receipts,
+                    }
+                  : m
+              ),
+              updated
+            )
+          );
+        }
+      )
+      .onChange(
+        // DELETE events cannot be filtered by column, only the primary key is sent
+        { event: "DELETE", table: "messages" },
+        (change) => {
+          setMessages((prev) => prev.filter((m) => m.id !== change.old.id));
+        }
+      );
+
+    // Subscribe to reactions
+    channel
+      .onChange(
+        {
+          event: "*",
+          table: "message_reactions",
+          filter: { column: "conversation_id", value: conversationId },
+        },
+        async (change) => {
+          if (change.eventType === "DELETE") return;
+
+          const { data } = await repository.messages.getReaction(change.new.id);
 
           if (data) {
-            setMessages((prev) => [...prev, data as Message]);
+            setMessages((prev) => withReaction(prev, data));
           }
         }
       )
-      .subscribe();
+      .onChange({ event: "DELETE", table: "message_reactions" }, (change) => {
+        setMessages((prev) => withoutReaction(prev, change.old.id));
+      });
+
+    // Subscribe to delivery and read receipts
+    channel.onChange(
+      {
+        event: "*",
+        table: "message_receipts",
+        filter: { column: "conversation_id", value: conversationId },
+      },
+      (change) => {
+        if (change.eventType === "DELETE") return;
+        setMessages((prev) => withReceipt(prev, change.new));
+      }
+    );
+
+    if (user) {
+      channel.onChange(
+        {
+          event: "INSERT",
+          table: "hidden_messages",
+          filter: { column: "user_id", value: user.id },
+        },
+        (change) => {
+          hiddenIdsRef.current.add(change.new.message_id);
+          setMessages((prev) => prev.filter((m) => m.id !== change.new.message_id));
+        }
+      );
+    }
+
+    channel.subscribe();
 
     return () => {
-      supabase.removeChannel(channel);
+      channel.unsubscribe();
     };
-  }, [conversationId, fetchMessages]);
+  }, [queryClient, repository, conversationId, user, setMessages]);
 
-  const sendMessage = async (content: string, type = "text", fileUrl?: string, fileName?: string) => {
+  // Roll the conversation back to a snapshot when an optimistic mutation fails
+  const snapshot = () =>
+    queryClient.getQueryData<MessagesData>(queryKeys.messages(user?.id, conversationId));
+  const restore = (previous?: MessagesData) =>
+    queryClient.setQueryData(queryKeys.messages(user?.id, conversationId), previous);
+
+  const sendMessage = async (body: MessageBody, replyToId?: string) => {
     if (!conversationId || !user) {
       return { error: new Error("Not authenticated or no conversation") };
     }
 
-    const { error } = await supabase.from("messages").insert({
+    const columns = toMessageColumns(body);
+    // Would be rejected by the messages_payload_check constraint
+    if (!getMessageBody(columns)) {
+      return { error: new Error(`Invalid ${body.kind} message`) };
+    }
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
       conversation_id: conversationId,
       sender_id: user.id,
-      content,
-      message_type: type,
-      file_url: fileUrl,
-      file_name: fileName,
-    });
+      ...columns,
+      reply_to_id: replyToId || null,
+      created_at: new Date().toISOString(),
+      failed: false,
+    };
+
+    if (hasNewer) await showLatest();
+
+    // Show the message right away, the outbox keeps it across reloads until it is stored
+    const replyTo = messages.find((m) => m.id === replyToId);
+    setMessages((prev) => withMessage(prev, toOptimisticMessage(entry, replyTo)));
+    await putOutboxEntry(entry);
+
+    if (navigator.onLine) deliver(entry);
+
+    return { error: null };
+  };
+
+  const retryMessage = async (message: Message) => {
+    if (!user || message.local_status !== "failed") return { error: null };
+
+    const entry: OutboxEntry = {
+      id: message.id,
+      conversation_id: message.conversation_id,
+      sender_id: user.id,
+      content: message.content,
+      message_type: message.message_type,
+      file_url: message.file_url,
+      file_name: message.file_name,
+      payload: message.payload,
+      attachments: message.attachments,
+      reply_to_id: message.reply_to_id,
+      created_at: message.created_at,
+      failed: false,
+    };
 
-    // Update conversation updated_at
-    if (!error) {
-      await supabase
-        .from("conversations")
-        .update({ updated_at: new Date().toISOString() })
-        .eq("id", conversationId);
+    setMessages((prev) => withLocalStatus(prev, message.id, "pending"));
+    await putOutboxEntry(entry);
+
+    if (!navigator.onLine) return { error: null };
+    return deliver(entry);
+  };
+
+  // Drop a message that never reached the server
+  const discardMessage = async (messageId: string) => {
+    await deleteOutboxEntry(messageId);
+    setMessages((prev) => prev.filter((m) => m.id !== messageId));
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: string; content: string }) => {
+      const { error } = await repository.messages.edit(messageId, user!.id, content);
+
+      if (error) throw error;
+    },
+    onMutate: ({ messageId, content }) => {
+      const previous = snapshot();
+      const edited_at = new Date().toISOString();
+      setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, content, edited_at } : m)));
+      return { previous };
+    },
+    onError: (_error, _variables, context) => restore(context?.previous),
+  });
+
+  const editMessage = async (messageId: string, content: string) => {
+    if (!user) return { error: new Error("Not authenticated") };
+
+    try {
+      await editMutation.mutateAsync({ messageId, content });
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error & { hint?: string } };
     }
+  };
+
+  const hideMutation = useMutation({
+    mutationFn: async (messageId: string) => {
+      const { error } = await repository.messages.hide(messageId, user!.id);
+
+      if (error) throw error;
+    },
+    onMutate: (messageId) => {
+      const previous = snapshot();
+      hiddenIdsRef.current.add(messageId);
+      setMessages((prev) => prev.filter((m) => m.id !== messageId));
+      return { previous };
+    },
+    onError: (_error, messageId, context) => {
+      hiddenIdsRef.current.delete(messageId);
+      restore(context?.previous);
+    },
+  });
+
+  const deleteMessageForMe = async (messageId: string) => {
+    if (!user) return { error: new Error("Not authenticated") };
+
+    try {
+      await hideMutation.mutateAsync(messageId);
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  const deleteMessageForEveryone = async (message: Message) => {
+    if (!user) return { error: new Error("Not authenticated") };
+
+    const { error } = await repository.messages.deleteForEveryone(message.id);
+
+    if (error) return { error };
+
+    // The row is now a tombstone, its files are no longer referenced
+    const paths = message.attachments?.length
+      ? message.attachments.flatMap((a) => [a.url, a.poster_url])
+      : [message.file_url];
+    await Promise.all(paths.filter(Boolean).map((path) => repository.storage.remove("chat-attachments", path)));
 
-    return { error };
+    return { error: null };
   };
 
-  return { messages, loading, sendMessage, refetch: fetchMessages };
+  const reactionMutation = useMutation({
+    mutationFn: async ({ messageId, emoji, existing }: ReactionToggle) => {
+      // Reacting again with the same emoji removes the reaction
+      if (existing?.emoji === emoji) {
+        const { error } = await repository.messages.unreact(existing.id);
+        if (error) throw error;
+        return null;
+      }
+
+      const { data, error } = await repository.messages.react({
+        messageId,
+        conversationId: conversationId!,
+        userId: user!.id,
+        emoji,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onMutate: ({ messageId, emoji, existing }) => {
+      const previous = snapshot();
+
+      if (existing?.emoji === emoji) {
+        setMessages((prev) => withoutReaction(prev, existing.id));
+      } else {
+        setMessages((prev) =>
+          withReaction(prev, {
+            id: existing?.id || `optimistic-${messageId}`,
+            message_id: messageId,
+            user_id: user!.id,
+            emoji,
+            created_at: new Date().toISOString(),
+            profile: existing?.profile || null,
+          })
+        );
+      }
+      return { previous };
+    },
+    onSuccess: (reaction) => {
+      if (reaction) setMessages((prev) => withReaction(prev, reaction));
+    },
+    onError: (_error, _variables, context) => restore(context?.previous),
+  });
+
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    if (!conversationId || !user) {
+      return { error: new Error("Not authenticated or no conversation") };
+    }
+
+    const existing = messages
+      .find((m) => m.id === messageId)
+      ?.reactions?.find((r) => r.user_id === user.id);
+
+    try {
+      await reactionMutation.mutateAsync({ messageId, emoji, existing });
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  const markAsRead = useCallback(async () => {
+    if (!conversationId || !user) return;
+
+    const hasUnread = messages.some((m) =>
+      m.receipts?.some((r) => r.user_id === user.id && !r.read_at)
+    );
+    if (!hasUnread) return;
+
+    await repository.messages.markConversationRead(conversationId);
+  }, [repository, conversationId, user, messages]);
+
+  const fetchEditHistory = async (messageId: string) => {
+    const { data, error } = await repository.messages.getEditHistory(messageId);
+    return { data: data || [], error };
+  };
+
+  return {
+    messages,
+    loading: isLoading,
+    hasMore,
+    loadingOlder,
+    loadOlder,
+    hasNewer,
+    loadingNewer,
+    loadNewer,
+    jumpToMessage,
+    showLatest,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessageForMe,
+    deleteMessageForEveryone,
+    toggleReaction,
+    markAsRead,
+    fetchEditHistory,
+    refetch,
+  };
 }
@@ -1,56 +1,72 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { Profile } from "@/lib/data";
+import { queryKeys } from "@/lib/queryKeys";
 
-export interface Profile {
-  id: string;
-  username: string | null;
-  display_name: string | null;
-  avatar_url: string | null;
-  bio: string | null;
-  status: string | null;
-  is_online: boolean | null;
-  last_seen: string | null;
-  theme: string | null;
-  created_at: string | null;
-  updated_at: string | null;
-}
+export type { Profile } from "@/lib/data";
 
 export function useProfile() {
   const { user } = useAuth();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { profiles } = useRepository();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.profile(user?.id);
+
+  // Only the user edits their own profile, so the cached copy never goes stale
+  const { data: profile = null, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await profiles.get(user!.id);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+    staleTime: Infinity,
+  });
+
+  const { mutateAsync } = useMutation({
+    mutationFn: async (updates: Partial<Profile>) => {
+      const { error } = await profiles.update(user!.id, updates);
+
+      if (error) throw error;
+    },
+    onMutate: async (updates) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Profile | null>(queryKey);
+      queryClient.setQueryData<Profile | null>(queryKey, (old) => (old ? { ...old, ...updates } : old));
+      return { previous };
+    },
+    onError: (_error, _updates, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+    },
+  });
 
-  useEffect(() => {
-    if (!user) {
-      setProfile(null);
-      setLoading(false);
-      return;
+  const updateProfile = async (updates: Partial<Profile>) => {
+    if (!user) return { error: new Error("Not authenticated") };
+
+    try {
+      await mutateAsync(updates);
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
     }
+  };
 
-    const fetchProfile = async () => {
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", user.id)
-        .maybeSingle();
-
-      if (!error && data) {
-        setProfile(data);
-      }
-      setLoading(false);
-    };
+  return { profile, loading: isLoading, updateProfile };
+}
+
+// Publish the user's online status, mounted once for the whole app
+export function useOnlinePresence() {
+  const { user } = useAuth();
+  const { profiles } = useRepository();
 
-    fetchProfile();
+  useEffect(() => {
+    if (!user) return;
 
-    // Update online status
     const updateOnlineStatus = async (isOnline: boolean) => {
-      if (user) {
-        await supabase
-          .from("profiles")
-          .update({ is_online: isOnline, last_seen: new Date().toISOString() })
-          .eq("id", user.id);
-      }
+      await profiles.update(user.id, { is_online: isOnline, last_seen: new Date().toISOString() });
     };
 
     updateOnlineStatus(true);
@@ -71,22 +87,5 @@ export function useProfile() {
       document.removeEventListener("visibilitychange", handleVisibilityChange);
       window.removeEventListener("beforeunload", handleBeforeUnload);
     };
-  }, [user]);
-
-  const updateProfile = async (updates: Partial<Profile>) => {
-    if (!user) return { error: new Error("Not authenticated") };
-
-    const { error } = await supabase
-      .from("profiles")
-      .update(updates)
-      .eq("id", user.id);
-
-    if (!error) {
-      setProfile((prev) => (prev ? { ...prev, ...updates } : null));
-    }
-
-    return { error };
-  };
-
-  return { profile, loading, updateProfile };
+  }, [profiles, user]);
 }
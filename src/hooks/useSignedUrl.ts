@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { PrivateBucket } from "@/lib/data";
+import { queryKeys } from "@/lib/queryKeys";
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Renewed from ten minutes before expiring, when a component showing the file mounts or the window
+// regains focus. Not on a timer, swapping the source of a playing video would restart it.
+const SIGNED_URL_STALE_MS = (SIGNED_URL_TTL_SECONDS - 10 * 60) * 1000;
+
+// Files are stored by path, but data URLs and outbox entries queued before that are already URLs
+const isUrl = (value: string) => /^(https?|blob|data):/.test(value);
+
+// Short-lived URL of a file in a private bucket, shared by every component showing the same file
+export function useSignedUrl(bucket: PrivateBucket, path: string | null | undefined) {
+  const { user } = useAuth();
+  const { storage } = useRepository();
+
+  const { data } = useQuery({
+    queryKey: queryKeys.signedUrl(user?.id, bucket, path),
+    queryFn: async () => {
+      const { data, error } = await storage.createSignedUrl(bucket, path!, SIGNED_URL_TTL_SECONDS);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!path && !isUrl(path),
+    staleTime: SIGNED_URL_STALE_MS,
+    gcTime: SIGNED_URL_STALE_MS,
+  });
+
+  return path && isUrl(path) ? path : data;
+}
@@ -0,0 +1,83 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
+import { ProfilePreview, Story } from "@/lib/data";
+import { queryKeys } from "@/lib/queryKeys";
+
+export type { Story } from "@/lib/data";
+
+export interface GroupedStories {
+  user: ProfilePreview;
+  stories: Story[];
+  hasViewed: boolean;
+}
+
+interface StoriesData {
+  myStories: Story[];
+  groupedStories: GroupedStories[];
+}
+
+export function useStories() {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.stories(user?.id),
+    queryFn: async (): Promise<StoriesData> => {
+      // Fetch all active stories
+      const { data: stories, error } = await repository.stories.listActive();
+
+      if (error) throw error;
+
+      // Separate my stories
+      const myStories = stories.filter((s) => s.user_id === user!.id);
+
+      // Group other stories by user
+      const othersStories = stories.filter((s) => s.user_id !== user!.id);
+      const grouped: Record<string, GroupedStories> = {};
+
+      othersStories.forEach((story) => {
+        if (story.user) {
+          if (!grouped[story.user_id]) {
+            grouped[story.user_id] = {
+              user: story.user,
+              stories: [],
+              hasViewed: false,
+            };
+          }
+          grouped[story.user_id].stories.push(story);
+        }
+      });
+
+      // Check which stories the user has viewed
+      const storyIds = othersStories.map((s) => s.id);
+      if (storyIds.length > 0) {
+        const { data: viewed } = await repository.stories.getViewedIds(user!.id, storyIds);
+
+        const viewedIds = new Set(viewed || []);
+        Object.values(grouped).forEach((g) => {
+          g.hasViewed = g.stories.every((s) => viewedIds.has(s.id));
+        });
+      }
+
+      // Sort: unviewed first
+      const groupedStories = Object.values(grouped).sort((a, b) => {
+        if (a.hasViewed === b.hasViewed) return 0;
+        return a.hasViewed ? 1 : -1;
+      });
+
+      return { myStories, groupedStories };
+    },
+    enabled: !!user,
+  });
+
+  const refetch = () => queryClient.invalidateQueries({ queryKey: queryKeys.stories(user?.id) });
+
+  return {
+    myStories: data?.myStories || [],
+    groupedStories: data?.groupedStories || [],
+    loading: isLoading,
+    refetch,
+  };
+}
@@ -1,64 +1,70 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRepository } from "@/contexts/RepositoryContext";
 import { useProfile } from "@/hooks/useProfile";
+import { RealtimeChannel } from "@/lib/data";
+
+export type TypingActivity = "typing" | "recording";
 
 interface TypingUser {
   id: string;
   display_name: string | null;
+  activity: TypingActivity;
+}
+
+interface TypingPresence {
+  user_id: string;
+  display_name: string | null;
+  is_typing: boolean;
+  // Holding the microphone button of the composer
+  is_recording: boolean;
 }
 
 export function useTypingIndicator(conversationId: string | null) {
   const { user } = useAuth();
+  const repository = useRepository();
   const { profile } = useProfile();
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
-  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
     if (!conversationId || !user) return;
 
-    const channel = supabase.channel(`typing-${conversationId}`);
+    const channel = repository.realtime.channel(`typing-${conversationId}`);
     channelRef.current = channel;
 
     channel
-      .on("presence", { event: "sync" }, () => {
-        const state = channel.presenceState();
-        const users: TypingUser[] = [];
-        
-        Object.values(state).forEach((presences: any[]) => {
-          presences.forEach((presence) => {
-            if (presence.user_id !== user.id && presence.is_typing) {
-              users.push({
-                id: presence.user_id,
-                display_name: presence.display_name,
-              });
-            }
-          });
-        });
-        
+      .onPresence<TypingPresence>((presences) => {
+        const users: TypingUser[] = presences
+          .filter((presence) => presence.user_id !== user.id && (presence.is_typing || presence.is_recording))
+          .map((presence) => ({
+            id: presence.user_id,
+            display_name: presence.display_name,
+            activity: presence.is_recording ? "recording" : "typing",
+          }));
+
         setTypingUsers(users);
       })
-      .subscribe(async (status) => {
-        if (status === "SUBSCRIBED") {
-          await channel.track({
-            user_id: user.id,
-            display_name: profile?.display_name || profile?.username,
-            is_typing: false,
-          });
-        }
+      .subscribe(async () => {
+        await channel.track({
+          user_id: user.id,
+          display_name: profile?.display_name || profile?.username,
+          is_typing: false,
+          is_recording: false,
+        });
       });
 
     return () => {
       if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
+        channelRef.current.unsubscribe();
         channelRef.current = null;
       }
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
       }
     };
-  }, [conversationId, user, profile]);
+  }, [repository, conversationId, user, profile]);
 
   const startTyping = useCallback(async () => {
     if (!channelRef.current || !user) return;
@@ -67,6 +73,7 @@ export function useTypingIndicator(conversationId: string | null) {
       user_id: user.id,
       display_name: profile?.display_name || profile?.username,
       is_typing: true,
+      is_recording: false,
     });
 
     // Auto-stop typing after 3 seconds of inactivity
@@ -90,8 +97,25 @@ export function useTypingIndicator(conversationId: string | null) {
       user_id: user.id,
       display_name: profile?.display_name || profile?.username,
       is_typing: false,
+      is_recording: false,
+    });
+  }, [user, profile]);
+
+  // Unlike typing, recording lasts until the button is released so it has no timeout
+  const startRecording = useCallback(async () => {
+    if (!channelRef.current || !user) return;
+
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+
+    await channelRef.current.track({
+      user_id: user.id,
+      display_name: profile?.display_name || profile?.username,
+      is_typing: false,
+      is_recording: true,
     });
   }, [user, profile]);
 
-  return { typingUsers, startTyping, stopTyping };
+  return { typingUsers, startTyping, stopTyping, startRecording, stopRecording: stopTyping };
 }
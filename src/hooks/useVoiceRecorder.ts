@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface VoiceRecording {
+  file: File;
+  durationMs: number;
+  // Loudness of each bar of the player, from 0 to 100
+  waveform: number[];
+}
+
+// Bars drawn by the voice note player, must stay within the message_attachments waveform check
+export const WAVEFORM_BARS = 48;
+
+// Shorter recordings are most likely an accidental tap on the microphone
+export const MIN_RECORDING_MS = 1000;
+
+const SAMPLE_INTERVAL_MS = 100;
+
+// Safari only records MP4, the other browsers prefer WebM
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus"];
+
+const EXTENSIONS: Record<string, string> = { "audio/webm": "webm", "audio/mp4": "m4a", "audio/ogg": "ogg" };
+
+// Average the samples into a fixed number of bars, scaled so the loudest one is full height
+function toWaveform(samples: number[]) {
+  if (samples.length === 0) return [];
+
+  const count = Math.min(WAVEFORM_BARS, samples.length);
+  const bars = Array.from({ length: count }, (_, bar) => {
+    const start = Math.floor((bar * samples.length) / count);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * samples.length) / count));
+    const bucket = samples.slice(start, end);
+    return bucket.reduce((sum, sample) => sum + sample, 0) / bucket.length;
+  });
+
+  const peak = Math.max(...bars) || 1;
+  return bars.map((bar) => Math.round((bar / peak) * 100));
+}
+
+interface ActiveRecording {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  audioContext: AudioContext;
+  chunks: Blob[];
+  samples: number[];
+  startedAt: number;
+  sampler: ReturnType<typeof setInterval>;
+}
+
+export function useVoiceRecorder() {
+  const [recording, setRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const activeRef = useRef<ActiveRecording | null>(null);
+  // Bumped by stop and cancel, so a release during the permission prompt does not leave the microphone on
+  const attemptRef = useRef(0);
+
+  const release = useCallback(() => {
+    const active = activeRef.current;
+    if (!active) return;
+
+    activeRef.current = null;
+    clearInterval(active.sampler);
+    active.stream.getTracks().forEach((track) => track.stop());
+    active.audioContext.close();
+    setRecording(false);
+    setElapsedMs(0);
+  }, []);
+
+  // Stop the microphone if the composer goes away mid-recording
+  useEffect(() => release, [release]);
+
+  const start = async () => {
+    if (activeRef.current) return { error: null };
+
+    if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+      return { error: new Error("Voice recording is not supported by this browser") };
+    }
+
+    const attempt = ++attemptRef.current;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (attempt !== attemptRef.current) {
+        stream.getTracks().forEach((track) => track.stop());
+        return { error: null };
+      }
+
+      const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      // Sample the loudness while recording to draw the waveform without decoding the file afterwards
+      const audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 512;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      const buffer = new Uint8Array(analyser.fftSize);
+
+      const active: ActiveRecording = {
+        recorder,
+        stream,
+        audioContext,
+        chunks: [],
+        samples: [],
+        startedAt: Date.now(),
+        sampler: setInterval(() => {
+          analyser.getByteTimeDomainData(buffer);
+          const rms = Math.sqrt(buffer.reduce((sum, value) => sum + ((value - 128) / 128) ** 2, 0) / buffer.length);
+          active.samples.push(rms);
+          setElapsedMs(Date.now() - active.startedAt);
+        }, SAMPLE_INTERVAL_MS),
+      };
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) active.chunks.push(event.data);
+      };
+      recorder.start();
+
+      activeRef.current = active;
+      setRecording(true);
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  // Resolves to null when the recording is too short to be worth sending
+  const stop = async (): Promise<VoiceRecording | null> => {
+    attemptRef.current++;
+    const active = activeRef.current;
+    if (!active) return null;
+
+    const durationMs = Date.now() - active.startedAt;
+    await new Promise<void>((resolve) => {
+      active.recorder.onstop = () => resolve();
+      active.recorder.stop();
+    });
+    release();
+
+    if (durationMs < MIN_RECORDING_MS) return null;
+
+    const type = active.recorder.mimeType || "audio/webm";
+    const extension = EXTENSIONS[type.split(";")[0]] || "webm";
+    const file = new File(active.chunks, `note-vocale-${active.startedAt}.${extension}`, { type });
+
+    return { file, durationMs, waveform: toWaveform(active.samples) };
+  };
+
+  const cancel = () => {
+    attemptRef.current++;
+    const active = activeRef.current;
+    if (!active) return;
+
+    active.recorder.onstop = null;
+    if (active.recorder.state !== "inactive") active.recorder.stop();
+    release();
+  };
+
+  return { recording, elapsedMs, start, stop, cancel };
+}
@@ -130,16 +130,287 @@ export type Database = {
           },
         ]
       }
+      hidden_messages: {
+        Row: {
+          hidden_at: string | null
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          hidden_at?: string | null
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          hidden_at?: string | null
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hidden_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hidden_messages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_attachments: {
+        Row: {
+          created_at: string | null
+          duration_ms: number | null
+          file_name: string | null
+          height: number | null
+          id: string
+          message_id: string
+          mime_type: string | null
+          placeholder: string | null
+          poster_url: string | null
+          position: number
+          size_bytes: number | null
+          url: string
+          waveform: number[] | null
+          width: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          duration_ms?: number | null
+          file_name?: string | null
+          height?: number | null
+          id?: string
+          message_id: string
+          mime_type?: string | null
+          placeholder?: string | null
+          poster_url?: string | null
+          position?: number
+          size_bytes?: number | null
+          url: string
+          waveform?: number[] | null
+          width?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          duration_ms?: number | null
+          file_name?: string | null
+          height?: number | null
+          id?: string
+          message_id?: string
+          mime_type?: string | null
+          placeholder?: string | null
+          poster_url?: string | null
+          position?: number
+          size_bytes?: number | null
+          url?: string
+          waveform?: number[] | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_edits: {
+        Row: {
+          edited_at: string | null
+          id: string
+          message_id: string
+          previous_content: string | null
+        }
+        Insert: {
+          edited_at?: string | null
+          id?: string
+          message_id: string
+          previous_content?: string | null
+        }
+        Update: {
+          edited_at?: string | null
+          id?: string
+          message_id?: string
+          previous_content?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_mentions: {
+        Row: {
+          conversation_id: string
+          created_at: string | null
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string | null
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string | null
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_mentions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_mentions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_mentions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          conversation_id: string
+          created_at: string | null
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string | null
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string | null
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_receipts: {
+        Row: {
+          conversation_id: string
+          delivered_at: string | null
+          id: string
+          message_id: string
+          read_at: string | null
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          delivered_at?: string | null
+          id?: string
+          message_id: string
+          read_at?: string | null
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          delivered_at?: string | null
+          id?: string
+          message_id?: string
+          read_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_receipts_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_receipts_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_receipts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string | null
           conversation_id: string
           created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
           file_name: string | null
           file_url: string | null
           id: string
-          is_read: boolean | null
-          message_type: string | null
+          message_type: Database["public"]["Enums"]["message_kind"]
+          payload: Json | null
+          reply_to_id: string | null
           sender_id: string | null
           updated_at: string | null
         }
@@ -147,11 +418,14 @@ export type Database = {
           content?: string | null
           conversation_id: string
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           file_name?: string | null
           file_url?: string | null
           id?: string
-          is_read?: boolean | null
-          message_type?: string | null
+          message_type?: Database["public"]["Enums"]["message_kind"]
+          payload?: Json | null
+          reply_to_id?: string | null
           sender_id?: string | null
           updated_at?: string | null
         }
@@ -159,11 +433,14 @@ export type Database = {
           content?: string | null
           conversation_id?: string
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           file_name?: string | null
           file_url?: string | null
           id?: string
-          is_read?: boolean | null
-          message_type?: string | null
+          message_type?: Database["public"]["Enums"]["message_kind"]
+          payload?: Json | null
+          reply_to_id?: string | null
           sender_id?: string | null
           updated_at?: string | null
         }
@@ -175,6 +452,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_sender_id_fkey"
             columns: ["sender_id"]
@@ -300,15 +584,140 @@ export type Database = {
           },
         ]
       }
+      verified_uploads: {
+        Row: {
+          content_type: string
+          id: string
+          object_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          content_type: string
+          id?: string
+          object_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          content_type?: string
+          id?: string
+          object_id?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_read_chat_attachment: {
+        Args: { _path: string }
+        Returns: boolean
+      }
+      delete_message_for_everyone: {
+        Args: { _message_id: string }
+        Returns: undefined
+      }
+      get_inbox: {
+        Args: { _conversation_ids?: string[]; _since?: string }
+        Returns: {
+          created_at: string
+          created_by: string
+          id: string
+          image_url: string
+          is_group: boolean
+          last_message: Json
+          members: Json
+          name: string
+          unread_count: number
+          unread_mention_count: number
+          updated_at: string
+        }[]
+      }
+      is_own_upload: {
+        Args: { _bucket: string; _path: string; _user_id: string }
+        Returns: boolean
+      }
+      is_story_audience: {
+        Args: { _author_id: string }
+        Returns: boolean
+      }
+      list_orphan_storage_objects: {
+        Args: { _limit?: number; _older_than?: unknown }
+        Returns: {
+          bucket_id: string
+          name: string
+        }[]
+      }
+      mark_conversation_read: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      mark_messages_delivered: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      message_payload_is_valid: {
+        Args: {
+          _content: string
+          _file_url: string
+          _kind: Database["public"]["Enums"]["message_kind"]
+          _payload: Json
+        }
+        Returns: boolean
+      }
+      message_plain_text: {
+        Args: { _content: string }
+        Returns: string
+      }
+      message_search_query: {
+        Args: { _config: unknown; _query: string }
+        Returns: unknown
+      }
+      message_search_vector: {
+        Args: { _content: string }
+        Returns: unknown
+      }
+      record_verified_upload: {
+        Args: { _bucket: string; _content_type: string; _path: string }
+        Returns: boolean
+      }
+      search_messages: {
+        Args: { _conversation_id?: string; _limit?: number; _query: string }
+        Returns: {
+          conversation_id: string
+          created_at: string
+          id: string
+          sender_id: string
+          snippet: string
+        }[]
+      }
+      send_message: {
+        Args: {
+          _attachments?: Json
+          _content?: string
+          _conversation_id: string
+          _file_name?: string
+          _file_url?: string
+          _id: string
+          _message_type: Database["public"]["Enums"]["message_kind"]
+          _payload?: Json
+          _reply_to_id?: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      message_kind:
+        | "text"
+        | "image"
+        | "video"
+        | "audio"
+        | "file"
+        | "system"
+        | "location"
+        | "contact"
+        | "poll"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -435,6 +844,18 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      message_kind: [
+        "text",
+        "image",
+        "video",
+        "audio",
+        "file",
+        "system",
+        "location",
+        "contact",
+        "poll",
+      ],
+    },
   },
 } as const
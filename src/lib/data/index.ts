@@ -0,0 +1,28 @@
+import type { Repository } from "@/lib/data/types";
+
+export * from "@/lib/data/types";
+export type { MemoryDatabase, MemorySeed } from "@/lib/data/memoryRepository";
+export type { SupabaseConfig } from "@/lib/data/supabaseRepository";
+export { FILE_TOO_LARGE, UNREADABLE_IMAGE, UNSUPPORTED_FILE_TYPE, UPLOAD_RULES } from "@/lib/data/uploads";
+
+// VITE_DATA_BACKEND=memory runs the app on demo data held in memory, see createDemoSeed for the accounts.
+// Only the selected backend is loaded, so builds for Supabase leave the demo data out of the main bundle
+// and the memory backend runs without the Supabase environment variables.
+export async function loadDefaultRepository(): Promise<Repository> {
+  if (import.meta.env.VITE_DATA_BACKEND === "memory") {
+    const [{ createMemoryDatabase, createMemoryRepository }, { createDemoSeed }] = await Promise.all([
+      import("@/lib/data/memoryRepository"),
+      import("@/lib/data/memorySeed"),
+    ]);
+    return createMemoryRepository(createMemoryDatabase(createDemoSeed()));
+  }
+
+  const [{ supabase }, { createSupabaseRepository }] = await Promise.all([
+    import("@/integrations/supabase/client"),
+    import("@/lib/data/supabaseRepository"),
+  ]);
+  return createSupabaseRepository(supabase, {
+    url: import.meta.env.VITE_SUPABASE_URL,
+    key: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+  });
+}
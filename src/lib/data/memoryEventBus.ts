@@ -0,0 +1,52 @@
+import type { TableChange } from "@/lib/data/types";
+
+type ChangeListener = (change: TableChange) => void;
+
+// Stands in for Supabase Realtime, shared by every client of a memory database.
+// Like over the network, listeners are called after the write that caused the change has returned.
+export function createMemoryEventBus() {
+  const listeners = new Set<ChangeListener>();
+  const presence = new Map<string, Map<string, Record<string, unknown>>>();
+  const presenceListeners = new Map<string, Set<() => void>>();
+
+  const notifyPresence = (channel: string) => {
+    setTimeout(() => presenceListeners.get(channel)?.forEach((listener) => listener()), 0);
+  };
+
+  return {
+    emit(change: TableChange) {
+      setTimeout(() => listeners.forEach((listener) => listener(change)), 0);
+    },
+
+    listen(listener: ChangeListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    presenceState(channel: string) {
+      return [...(presence.get(channel)?.values() || [])];
+    },
+
+    track(channel: string, key: string, state: Record<string, unknown>) {
+      if (!presence.has(channel)) presence.set(channel, new Map());
+      presence.get(channel)!.set(key, state);
+      notifyPresence(channel);
+    },
+
+    untrack(channel: string, key: string) {
+      if (presence.get(channel)?.delete(key)) notifyPresence(channel);
+    },
+
+    onPresence(channel: string, listener: () => void) {
+      if (!presenceListeners.has(channel)) presenceListeners.set(channel, new Set());
+      presenceListeners.get(channel)!.add(listener);
+      return () => {
+        presenceListeners.get(channel)?.delete(listener);
+      };
+    },
+  };
+}
+
+export type MemoryEventBus = ReturnType<typeof createMemoryEventBus>;
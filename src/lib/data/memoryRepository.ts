@@ -0,0 +1,989 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { createMemoryEventBus } from "@/lib/data/memoryEventBus";
+import { mentionedUserIds, mentionsToText } from "@/lib/mentions";
+import { getMessageBody, isAttachmentKind } from "@/lib/messageKinds";
+import { SEARCH_MATCH_END, SEARCH_MATCH_START } from "@/lib/search";
+import type {
+  AuthSession,
+  ChangeFilter,
+  Contact,
+  ConversationRow,
+  DataError,
+  InboxMessage,
+  InboxRow,
+  Message,
+  MessageReaction,
+  MessageSearchHit,
+  ProfilePreview,
+  ProfileSummary,
+  RealtimeChannel,
+  Repository,
+  StorageBucket,
+  TableChange,
+  TableName,
+} from "@/lib/data/types";
+import { checkUpload } from "@/lib/data/uploads";
+
+type Rows = { [T in TableName]: Tables<T>[] };
+
+interface MemoryFile {
+  url: string;
+  // Sniffed from the content on upload, like the metadata of a storage object
+  contentType: string;
+  size: number;
+}
+
+export interface MemoryAccount {
+  email: string;
+  password: string;
+  user_id: string;
+}
+
+export interface MemorySeed {
+  accounts?: MemoryAccount[];
+  tables?: Partial<Rows>;
+}
+
+// Same window as the handle_message_edit trigger
+const EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+// Tables whose updated_at is maintained by the update_updated_at_column trigger
+const TOUCHED_TABLES: TableName[] = ["conversations", "messages", "profiles"];
+
+// One database shared by every repository created on it, like a Supabase project shared by several users
+export function createMemoryDatabase(seed: MemorySeed = {}) {
+  const tables: Rows = {
+    contacts: [],
+    conversation_members: [],
+    conversations: [],
+    hidden_messages: [],
+    message_attachments: [],
+    message_edits: [],
+    message_mentions: [],
+    message_reactions: [],
+    message_receipts: [],
+    messages: [],
+    profiles: [],
+    stories: [],
+    story_views: [],
+    verified_uploads: [],
+  };
+
+  for (const [table, rows] of Object.entries(seed.tables || {})) {
+    tables[table as TableName] = structuredClone(rows) as never;
+  }
+
+  return {
+    tables,
+    accounts: [...(seed.accounts || [])],
+    // Uploaded files by bucket and path
+    files: new Map<string, MemoryFile>(),
+    bus: createMemoryEventBus(),
+  };
+}
+
+export type MemoryDatabase = ReturnType<typeof createMemoryDatabase>;
+
+function dataError(message: string, code?: string, hint?: string): DataError {
+  return Object.assign(new Error(message), { code, hint });
+}
+
+const NOT_AUTHENTICATED = dataError("Not authenticated");
+
+function duplicateError(constraint: string) {
+  return dataError(`duplicate key value violates unique constraint "${constraint}"`, "23505");
+}
+
+function checkError(constraint: string) {
+  return dataError(`new row for relation "messages" violates check constraint "${constraint}"`, "23514");
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const SNIPPET_WORDS = 24;
+
+// Lowercase without accents, like the unaccent text search configurations
+const foldText = (text: string) => text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+// Mirrors the matching of search_messages without stemming: every search term starts a word of the message.
+// Null when the message does not match.
+function searchSnippet(content: string, terms: string[]) {
+  const words = [...content.matchAll(WORD_PATTERN)].map((match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    folded: foldText(match[0]),
+  }));
+  if (!terms.every((term) => words.some((word) => word.folded.startsWith(term)))) return null;
+
+  const isMatch = (word: (typeof words)[number]) => terms.some((term) => word.folded.startsWith(term));
+  // A few words of context before the first match, like ts_headline
+  const from = Math.max(0, words.findIndex(isMatch) - 6);
+
+  let snippet = "";
+  let cursor = words[from].start;
+  for (const word of words.slice(from, from + SNIPPET_WORDS)) {
+    const text = content.slice(word.start, word.end);
+    snippet += content.slice(cursor, word.start) + (isMatch(word) ? SEARCH_MATCH_START + text + SEARCH_MATCH_END : text);
+    cursor = word.end;
+  }
+  return snippet;
+}
+
+function toPreview(profile?: Tables<"profiles">): ProfilePreview | null {
+  return profile
+    ? {
+        id: profile.id,
+        username: profile.username,
+        display_name: profile.display_name,
+        avatar_url: profile.avatar_url,
+      }
+    : null;
+}
+
+function toSummary(profile: Tables<"profiles">): ProfileSummary {
+  return { ...toPreview(profile)!, is_online: profile.is_online };
+}
+
+// A repository acting as one signed in client of the database, with the row level security of the schema
+export function createMemoryRepository(db: MemoryDatabase = createMemoryDatabase()): Repository {
+  const { tables, bus } = db;
+  let session: AuthSession | null = null;
+  const authListeners = new Set<(session: AuthSession | null) => void>();
+
+  const now = () => new Date().toISOString();
+  const currentUserId = () => session?.user.id || null;
+
+  const setSession = (next: AuthSession | null) => {
+    session = next;
+    authListeners.forEach((listener) => listener(next));
+  };
+
+  const findProfile = (userId: string | null) => tables.profiles.find((p) => p.id === userId);
+
+  // Mirrors can_read_chat_attachment: the members of the conversation the file was sent to
+  const canReadChatAttachment = (path: string) =>
+    tables.message_attachments.some((a) => {
+      if (a.url !== path && a.poster_url !== path) return false;
+
+      const message = tables.messages.find((m) => m.id === a.message_id);
+      return tables.conversation_members.some(
+        (m) => m.conversation_id === message?.conversation_id && m.user_id === currentUserId()
+      );
+    });
+
+  // Mirrors is_story_audience: the author and their accepted contacts
+  const isStoryAudience = (authorId: string) => {
+    const userId = currentUserId();
+    return (
+      authorId === userId ||
+      tables.contacts.some(
+        (c) =>
+          c.status === "accepted" &&
+          ((c.user_id === authorId && c.contact_id === userId) || (c.user_id === userId && c.contact_id === authorId))
+      )
+    );
+  };
+
+  // Mirrors is_own_upload: a file uploaded to the folder of the user referencing it. Uploads are checked as
+  // verify-upload checks them, so every stored file counts as verified.
+  const findOwnUpload = (bucket: StorageBucket, path: string, userId: string | null) =>
+    path.split("/")[0] === userId ? db.files.get(`${bucket}/${path}`) : undefined;
+
+  const isMember = (userId: string, conversationId: string) =>
+    tables.conversation_members.some((m) => m.conversation_id === conversationId && m.user_id === userId);
+
+  function insertRow<T extends TableName>(table: T, row: Tables<T>) {
+    (tables[table] as Tables<T>[]).push(row);
+    bus.emit({ table, eventType: "INSERT", new: { ...row }, old: {} } as TableChange);
+    return row;
+  }
+
+  function updateRows<T extends TableName>(
+    table: T,
+    match: (row: Tables<T>) => boolean,
+    update: (row: Tables<T>) => Partial<Tables<T>>
+  ) {
+    const rows = tables[table] as Tables<T>[];
+    const touched = TOUCHED_TABLES.includes(table);
+
+    return rows
+      .map((row, index) => {
+        if (!match(row)) return null;
+
+        const updated = { ...row, ...update(row), ...(touched ? { updated_at: now() } : {}) };
+        rows[index] = updated;
+        bus.emit({ table, eventType: "UPDATE", new: { ...updated }, old: { id: row.id } } as TableChange);
+        return updated;
+      })
+      .filter(Boolean) as Tables<T>[];
+  }
+
+  function deleteRows<T extends TableName>(table: T, match: (row: Tables<T>) => boolean) {
+    const rows = tables[table] as Tables<T>[];
+    const deleted = rows.filter(match);
+
+    tables[table] = rows.filter((row) => !match(row)) as Rows[T];
+    deleted.forEach((row) => bus.emit({ table, eventType: "DELETE", new: {}, old: { id: row.id } } as TableChange));
+    return deleted;
+  }
+
+  // Mirrors the sync_message_mentions trigger: group members other than the sender, replaced on every edit
+  const syncMentions = (message: Tables<"messages">) => {
+    deleteRows("message_mentions", (mention) => mention.message_id === message.id);
+
+    const isGroup = tables.conversations.some((c) => c.id === message.conversation_id && c.is_group);
+    new Set(mentionedUserIds(message.content)).forEach((userId) => {
+      if (!isGroup || userId === message.sender_id || !isMember(userId, message.conversation_id)) return;
+
+      insertRow("message_mentions", {
+        id: crypto.randomUUID(),
+        message_id: message.id,
+        conversation_id: message.conversation_id,
+        user_id: userId,
+        created_at: now(),
+      });
+    });
+  };
+
+  const toReaction = (row: Tables<"message_reactions">): MessageReaction => ({
+    id: row.id,
+    message_id: row.message_id,
+    user_id: row.user_id,
+    emoji: row.emoji,
+    created_at: row.created_at!,
+    profile: toPreview(findProfile(row.user_id)),
+  });
+
+  const toReceipt = (row: Tables<"message_receipts">) => ({
+    id: row.id,
+    message_id: row.message_id,
+    user_id: row.user_id,
+    delivered_at: row.delivered_at,
+    read_at: row.read_at,
+  });
+
+  const toInboxMessage = (row: Tables<"messages">) => ({ ...row }) as InboxMessage;
+
+  // Same shape as the MESSAGE_SELECT embed of the Supabase repository
+  const toMessage = (row: Tables<"messages">): Message => {
+    const quoted = tables.messages.find((m) => m.id === row.reply_to_id);
+
+    return {
+      ...toInboxMessage(row),
+      reply_to_id: row.reply_to_id,
+      edited_at: row.edited_at,
+      sender: toPreview(findProfile(row.sender_id)),
+      reply_to: quoted
+        ? {
+            id: quoted.id,
+            sender_id: quoted.sender_id,
+            content: quoted.content,
+            message_type: quoted.message_type,
+            file_url: quoted.file_url,
+            file_name: quoted.file_name,
+            payload: quoted.payload,
+            deleted_at: quoted.deleted_at,
+            sender: toPreview(findProfile(quoted.sender_id)),
+          }
+        : null,
+      attachments: tables.message_attachments
+        .filter((a) => a.message_id === row.id)
+        .sort((a, b) => a.position - b.position)
+        .map((a) => ({ ...a, created_at: a.created_at! })),
+      reactions: tables.message_reactions.filter((r) => r.message_id === row.id).map(toReaction),
+      receipts: tables.message_receipts.filter((r) => r.message_id === row.id).map(toReceipt),
+    };
+  };
+
+  const toContact = (row: Tables<"contacts">, withProfile: "contact_profile" | "user_profile"): Contact => {
+    const profile = findProfile(withProfile === "contact_profile" ? row.contact_id : row.user_id);
+    return {
+      ...(row as Omit<Contact, "contact_profile" | "user_profile">),
+      [withProfile]: profile ? toSummary(profile) : undefined,
+    };
+  };
+
+  // What the realtime policies let the user receive, DELETE changes only carry the primary key
+  const canReceive = (userId: string, change: TableChange) => {
+    if (change.eventType === "DELETE") return true;
+
+    const row = change.new as Record<string, string | null>;
+    switch (change.table) {
+      case "profiles":
+      case "stories":
+        return true;
+      case "conversations":
+        return isMember(userId, row.id!);
+      case "hidden_messages":
+        return row.user_id === userId;
+      case "contacts":
+        return row.user_id === userId || row.contact_id === userId;
+      case "story_views":
+        return (
+          row.viewer_id === userId || tables.stories.some((s) => s.id === row.story_id && s.user_id === userId)
+        );
+      case "message_edits": {
+        const message = tables.messages.find((m) => m.id === row.message_id);
+        return !!message && isMember(userId, message.conversation_id);
+      }
+      default:
+        return isMember(userId, row.conversation_id!);
+    }
+  };
+
+  const matches = (filter: ChangeFilter<TableName>, change: TableChange) => {
+    if (filter.table !== change.table) return false;
+    if (filter.event !== "*" && filter.event !== change.eventType) return false;
+    if (!filter.filter) return true;
+
+    const row = (change.eventType === "DELETE" ? change.old : change.new) as Record<string, unknown>;
+    return row[filter.filter.column] === filter.filter.value;
+  };
+
+  return {
+    auth: {
+      async getSession() {
+        return session;
+      },
+      onAuthStateChange(callback) {
+        authListeners.add(callback);
+        return () => {
+          authListeners.delete(callback);
+        };
+      },
+      async signUp(email, password, username) {
+        if (db.accounts.some((a) => a.email === email)) return { error: dataError("User already registered") };
+        if (tables.profiles.some((p) => p.username === username)) {
+          return { error: dataError("Database error saving new user") };
+        }
+
+        const userId = crypto.randomUUID();
+        db.accounts.push({ email, password, user_id: userId });
+
+        // Mirrors the handle_new_user trigger
+        const createdAt = now();
+        insertRow("profiles", {
+          id: userId,
+          username,
+          display_name: username,
+          avatar_url: null,
+          bio: null,
+          status: null,
+          is_online: false,
+          last_seen: null,
+          theme: null,
+          created_at: createdAt,
+          updated_at: createdAt,
+        });
+
+        setSession({ user: { id: userId, email } });
+        return { error: null };
+      },
+      async signIn(email, password) {
+        const account = db.accounts.find((a) => a.email === email && a.password === password);
+        if (!account) return { error: dataError("Invalid login credentials") };
+
+        setSession({ user: { id: account.user_id, email } });
+        return { error: null };
+      },
+      async signOut() {
+        setSession(null);
+      },
+    },
+
+    profiles: {
+      async get(userId) {
+        const profile = findProfile(userId);
+        return { data: profile ? { ...profile } : null, error: null };
+      },
+      async update(userId, updates) {
+        updateRows("profiles", (p) => p.id === userId, () => updates);
+        return { error: null };
+      },
+      async search({ excludeId, query, limit }) {
+        const search = query?.toLowerCase();
+        const profiles = tables.profiles
+          .filter((p) => p.id !== excludeId)
+          .filter(
+            (p) =>
+              !search ||
+              p.username?.toLowerCase().includes(search) ||
+              p.display_name?.toLowerCase().includes(search)
+          )
+          // Nulls last, like ORDER BY in Postgres
+          .sort((a, b) =>
+            a.display_name === null || b.display_name === null
+              ? Number(a.display_name === null) - Number(b.display_name === null)
+              : a.display_name.localeCompare(b.display_name)
+          )
+          .slice(0, limit)
+          .map(toSummary);
+
+        return { data: profiles, error: null };
+      },
+    },
+
+    conversations: {
+      async getInbox({ since, conversationIds } = {}) {
+        const userId = currentUserId();
+        if (!userId) return { data: null, error: NOT_AUTHENTICATED };
+
+        const rows = tables.conversations
+          .filter((c) => !conversationIds || conversationIds.includes(c.id))
+          .flatMap((c) => {
+            const me = tables.conversation_members.find((m) => m.conversation_id === c.id && m.user_id === userId);
+            if (!me) return [];
+
+            const changed =
+              !since ||
+              c.updated_at! > since ||
+              me.joined_at! > since ||
+              tables.messages.some((m) => m.conversation_id === c.id && m.updated_at! > since) ||
+              tables.message_receipts.some(
+                (r) => r.conversation_id === c.id && r.user_id === userId && !!r.read_at && r.read_at > since
+              );
+            if (!changed) return [];
+
+            const hiddenIds = new Set(
+              tables.hidden_messages.filter((h) => h.user_id === userId).map((h) => h.message_id)
+            );
+            const lastMessage = tables.messages
+              .filter((m) => m.conversation_id === c.id && !hiddenIds.has(m.id))
+              .sort((a, b) => b.created_at!.localeCompare(a.created_at!))[0];
+
+            const row: InboxRow = {
+              ...(c as ConversationRow),
+              members: tables.conversation_members
+                .filter((m) => m.conversation_id === c.id)
+                .sort((a, b) => a.joined_at!.localeCompare(b.joined_at!))
+                .flatMap((m) => {
+                  const profile = findProfile(m.user_id);
+                  return profile ? [{ ...m, is_admin: !!m.is_admin, joined_at: m.joined_at!, profile: toSummary(profile) }] : [];
+                }),
+              last_message: lastMessage ? toInboxMessage(lastMessage) : null,
+              // Only messages the list shows
+              unread_count: tables.message_receipts.filter(
+                (r) =>
+                  r.conversation_id === c.id &&
+                  r.user_id === userId &&
+                  !r.read_at &&
+                  !hiddenIds.has(r.message_id) &&
+                  !tables.messages.find((m) => m.id === r.message_id)?.deleted_at
+              ).length,
+              unread_mention_count: tables.message_mentions.filter(
+                (mention) =>
+                  mention.conversation_id === c.id &&
+                  mention.user_id === userId &&
+                  !hiddenIds.has(mention.message_id) &&
+                  tables.message_receipts.some(
+                    (r) => r.message_id === mention.message_id && r.user_id === userId && !r.read_at
+                  )
+              ).length,
+            };
+            return [row];
+          })
+          .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+        return { data: rows, error: null };
+      },
+      async create({ createdBy, memberIds, isGroup, name }) {
+        const createdAt = now();
+        const conversation = insertRow("conversations", {
+          id: crypto.randomUUID(),
+          is_group: isGroup,
+          name,
+          image_url: null,
+          created_by: createdBy,
+          created_at: createdAt,
+          updated_at: createdAt,
+        });
+
+        for (const userId of new Set([createdBy, ...memberIds])) {
+          insertRow("conversation_members", {
+            id: crypto.randomUUID(),
+            conversation_id: conversation.id,
+            user_id: userId,
+            is_admin: userId === createdBy,
+            joined_at: createdAt,
+          });
+        }
+
+        return { data: { ...conversation } as ConversationRow, error: null };
+      },
+      async touch(conversationId) {
+        updateRows("conversations", (c) => c.id === conversationId, () => ({}));
+        return { error: null };
+      },
+      async markMessagesDelivered() {
+        const userId = currentUserId();
+        if (!userId) return { error: NOT_AUTHENTICATED };
+
+        updateRows(
+          "message_receipts",
+          (r) => r.user_id === userId && !r.delivered_at,
+          () => ({ delivered_at: now() })
+        );
+        return { error: null };
+      },
+    },
+
+    messages: {
+      async get(messageId) {
+        const row = tables.messages.find((m) => m.id === messageId);
+        return { data: row ? toMessage(row) : null, error: null };
+      },
+      async getPage(conversationId, { before, limit }) {
+        const page = tables.messages
+          .filter((m) => m.conversation_id === conversationId)
+          .sort((a, b) => b.created_at!.localeCompare(a.created_at!) || b.id.localeCompare(a.id))
+          .filter(
+            (m) =>
+              !before ||
+              m.created_at! < before.created_at ||
+              (m.created_at === before.created_at && m.id < before.id)
+          )
+          .slice(0, limit)
+          .map(toMessage);
+
+        return { data: page, error: null };
+      },
+      async getNewerPage(conversationId, { after, limit }) {
+        const page = tables.messages
+          .filter((m) => m.conversation_id === conversationId)
+          .sort((a, b) => a.created_at!.localeCompare(b.created_at!) || a.id.localeCompare(b.id))
+          .filter(
+            (m) => m.created_at! > after.created_at || (m.created_at === after.created_at && m.id > after.id)
+          )
+          .slice(0, limit)
+          .map(toMessage);
+
+        return { data: page, error: null };
+      },
+      async getPageAround(conversationId, messageId, limit) {
+        const rows = tables.messages
+          .filter((m) => m.conversation_id === conversationId)
+          .sort((a, b) => a.created_at!.localeCompare(b.created_at!) || a.id.localeCompare(b.id));
+        const index = rows.findIndex((m) => m.id === messageId);
+        if (index === -1) return { data: null, error: null };
+
+        const half = Math.floor(limit / 2);
+        const from = Math.max(0, index - half);
+        const to = index + half + 1;
+        return {
+          data: { messages: rows.slice(from, to).map(toMessage), hasOlder: from > 0, hasNewer: to < rows.length },
+          error: null,
+        };
+      },
+      async getChangedSince(conversationId, since, limit) {
+        const changed = tables.messages
+          .filter((m) => m.conversation_id === conversationId && m.updated_at! > since)
+          .sort((a, b) => a.updated_at!.localeCompare(b.updated_at!))
+          .slice(0, limit)
+          .map(toMessage);
+
+        return { data: changed, error: null };
+      },
+      async getMedia(conversationId, limit) {
+        const media = tables.messages
+          .filter(
+            (m) =>
+              m.conversation_id === conversationId &&
+              !m.deleted_at &&
+              (isAttachmentKind(m.message_type) || /http/i.test(m.content || ""))
+          )
+          .sort((a, b) => b.created_at!.localeCompare(a.created_at!))
+          .slice(0, limit)
+          .map(toMessage);
+
+        return { data: media, error: null };
+      },
+      async getReactions(messageIds) {
+        const reactions = tables.message_reactions.filter((r) => messageIds.includes(r.message_id)).map(toReaction);
+        return { data: reactions, error: null };
+      },
+      async getReaction(reactionId) {
+        const row = tables.message_reactions.find((r) => r.id === reactionId);
+        return { data: row ? toReaction(row) : null, error: null };
+      },
+      async getReceipts(messageIds) {
+        const receipts = tables.message_receipts.filter((r) => messageIds.includes(r.message_id)).map(toReceipt);
+        return { data: receipts, error: null };
+      },
+      async getHiddenIds(userId, conversationId) {
+        const conversationMessageIds = new Set(
+          tables.messages.filter((m) => m.conversation_id === conversationId).map((m) => m.id)
+        );
+        const ids = tables.hidden_messages
+          .filter((h) => h.user_id === userId && conversationMessageIds.has(h.message_id))
+          .map((h) => h.message_id);
+
+        return { data: ids, error: null };
+      },
+      async getEditHistory(messageId) {
+        const edits = tables.message_edits
+          .filter((e) => e.message_id === messageId)
+          .sort((a, b) => b.edited_at!.localeCompare(a.edited_at!))
+          .map((e) => ({ ...e, edited_at: e.edited_at! }));
+
+        return { data: edits, error: null };
+      },
+      async search(query, { conversationId, limit }) {
+        const userId = currentUserId();
+        if (!userId) return { data: null, error: NOT_AUTHENTICATED };
+
+        const terms = foldText(query).match(WORD_PATTERN) || [];
+        const hidden = new Set(tables.hidden_messages.filter((h) => h.user_id === userId).map((h) => h.message_id));
+        const hits = tables.messages
+          .filter(
+            (m) =>
+              !m.deleted_at &&
+              m.message_type !== "system" &&
+              (!conversationId || m.conversation_id === conversationId) &&
+              isMember(userId, m.conversation_id) &&
+              !hidden.has(m.id)
+          )
+          .sort((a, b) => b.created_at!.localeCompare(a.created_at!))
+          .flatMap((m): MessageSearchHit[] => {
+            const snippet = terms.length > 0 && m.content ? searchSnippet(mentionsToText(m.content), terms) : null;
+            if (snippet === null) return [];
+            return [{ id: m.id, conversation_id: m.conversation_id, sender_id: m.sender_id, created_at: m.created_at!, snippet }];
+          })
+          .slice(0, Math.min(limit, 200));
+
+        return { data: hits, error: null };
+      },
+      async insert(message) {
+        if (tables.messages.some((m) => m.id === message.id)) return { error: duplicateError("messages_pkey") };
+        if (!getMessageBody(message)) return { error: checkError("messages_payload_check") };
+        if (message.message_type === "system" && message.sender_id) {
+          return { error: checkError("messages_system_sender_check") };
+        }
+
+        // Mirrors the validate_message_file and validate_message_attachment triggers
+        const { attachments, ...row } = message;
+        const uploads = attachments.map((a) => findOwnUpload("chat-attachments", a.url, message.sender_id));
+        if (
+          uploads.some((upload) => !upload) ||
+          attachments.some((a) => a.poster_url && !findOwnUpload("chat-attachments", a.poster_url, message.sender_id)) ||
+          (message.file_url && !findOwnUpload("chat-attachments", message.file_url, message.sender_id))
+        ) {
+          return { error: dataError("Attachments must be files uploaded by the sender", "23514") };
+        }
+
+        // Mirrors the send_message function, which inserts the attachments in the same transaction
+        const createdAt = now();
+        insertRow("messages", {
+          ...row,
+          edited_at: null,
+          deleted_at: null,
+          created_at: createdAt,
+          updated_at: createdAt,
+        });
+        attachments.forEach((attachment, position) =>
+          insertRow("message_attachments", {
+            ...attachment,
+            // Taken from the stored file by the trigger
+            mime_type: uploads[position]!.contentType,
+            size_bytes: uploads[position]!.size,
+            id: crypto.randomUUID(),
+            message_id: message.id,
+            position,
+            created_at: createdAt,
+          })
+        );
+
+        // Mirrors the create_message_receipts trigger
+        tables.conversation_members
+          .filter((m) => m.conversation_id === message.conversation_id && m.user_id !== message.sender_id)
+          .forEach((m) =>
+            insertRow("message_receipts", {
+              id: crypto.randomUUID(),
+              message_id: message.id,
+              conversation_id: message.conversation_id,
+              user_id: m.user_id,
+              delivered_at: null,
+              read_at: null,
+            })
+          );
+
+        syncMentions(tables.messages.find((m) => m.id === message.id)!);
+        return { error: null };
+      },
+      async edit(messageId, senderId, content) {
+        const row = tables.messages.find((m) => m.id === messageId && m.sender_id === senderId);
+        if (!row) return { error: null };
+
+        // Mirrors the handle_message_edit trigger
+        if (row.deleted_at) return { error: dataError("Message has been deleted", "23514", "message_deleted") };
+        if (row.content === content) return { error: null };
+        if (Date.now() - new Date(row.created_at!).getTime() > EDIT_WINDOW_MS) {
+          return { error: dataError("Message edit window has expired", "23514", "edit_window_expired") };
+        }
+        if (!getMessageBody({ ...row, content })) return { error: checkError("messages_payload_check") };
+
+        insertRow("message_edits", {
+          id: crypto.randomUUID(),
+          message_id: row.id,
+          previous_content: row.content,
+          edited_at: now(),
+        });
+        const [edited] = updateRows("messages", (m) => m.id === messageId, () => ({ content, edited_at: now() }));
+        syncMentions(edited);
+        return { error: null };
+      },
+      async hide(messageId, userId) {
+        if (tables.hidden_messages.some((h) => h.message_id === messageId && h.user_id === userId)) {
+          return { error: duplicateError("hidden_messages_message_id_user_id_key") };
+        }
+
+        insertRow("hidden_messages", {
+          id: crypto.randomUUID(),
+          message_id: messageId,
+          user_id: userId,
+          hidden_at: now(),
+        });
+        return { error: null };
+      },
+      async deleteForEveryone(messageId) {
+        const userId = currentUserId();
+        if (!userId) return { error: NOT_AUTHENTICATED };
+
+        const deleted = updateRows(
+          "messages",
+          (m) => m.id === messageId && m.sender_id === userId && !m.deleted_at,
+          () => ({ deleted_at: now(), content: null, file_url: null, file_name: null, payload: null })
+        );
+        if (deleted.length === 0) return { error: dataError("Message not found") };
+
+        syncMentions(deleted[0]);
+        deleteRows("message_edits", (e) => e.message_id === messageId);
+        deleteRows("message_attachments", (a) => a.message_id === messageId);
+        return { error: null };
+      },
+      async react({ messageId, conversationId, userId, emoji }) {
+        const [updated] = updateRows(
+          "message_reactions",
+          (r) => r.message_id === messageId && r.user_id === userId,
+          () => ({ emoji })
+        );
+        const reaction =
+          updated ||
+          insertRow("message_reactions", {
+            id: crypto.randomUUID(),
+            message_id: messageId,
+            conversation_id: conversationId,
+            user_id: userId,
+            emoji,
+            created_at: now(),
+          });
+
+        return { data: toReaction(reaction), error: null };
+      },
+      async unreact(reactionId) {
+        deleteRows("message_reactions", (r) => r.id === reactionId);
+        return { error: null };
+      },
+      async markConversationRead(conversationId) {
+        const userId = currentUserId();
+        if (!userId) return { error: NOT_AUTHENTICATED };
+
+        updateRows(
+          "message_receipts",
+          (r) => r.conversation_id === conversationId && r.user_id === userId && !r.read_at,
+          (r) => ({ read_at: now(), delivered_at: r.delivered_at || now() })
+        );
+        return { error: null };
+      },
+    },
+
+    contacts: {
+      async list(userId) {
+        const accepted = tables.contacts.filter((c) => c.status === "accepted");
+        const pending = tables.contacts.filter((c) => c.status === "pending");
+
+        return {
+          data: {
+            contacts: [
+              ...accepted.filter((c) => c.user_id === userId).map((c) => toContact(c, "contact_profile")),
+              ...accepted
+                .filter((c) => c.contact_id === userId)
+                .map((c) => toContact(c, "user_profile"))
+                .map((c) => ({ ...c, contact_profile: c.user_profile })),
+            ],
+            pendingReceived: pending.filter((c) => c.contact_id === userId).map((c) => toContact(c, "user_profile")),
+            pendingSent: pending.filter((c) => c.user_id === userId).map((c) => toContact(c, "contact_profile")),
+          },
+          error: null,
+        };
+      },
+      async request(userId, contactId) {
+        if (tables.contacts.some((c) => c.user_id === userId && c.contact_id === contactId)) {
+          return { error: duplicateError("contacts_user_id_contact_id_key") };
+        }
+
+        insertRow("contacts", {
+          id: crypto.randomUUID(),
+          user_id: userId,
+          contact_id: contactId,
+          status: "pending",
+          created_at: now(),
+        });
+        return { error: null };
+      },
+      async accept(contactId) {
+        updateRows("contacts", (c) => c.id === contactId, () => ({ status: "accepted" }));
+        return { error: null };
+      },
+      async remove(contactId) {
+        deleteRows("contacts", (c) => c.id === contactId);
+        return { error: null };
+      },
+    },
+
+    stories: {
+      async listActive() {
+        const stories = tables.stories
+          .filter((s) => s.expires_at! > now() && isStoryAudience(s.user_id))
+          .sort((a, b) => b.created_at!.localeCompare(a.created_at!))
+          .map((s) => ({
+            ...s,
+            expires_at: s.expires_at!,
+            created_at: s.created_at!,
+            user: toPreview(findProfile(s.user_id)) || undefined,
+          }));
+
+        return { data: stories, error: null };
+      },
+      async getViewedIds(viewerId, storyIds) {
+        const ids = tables.story_views
+          .filter((v) => v.viewer_id === viewerId && storyIds.includes(v.story_id))
+          .map((v) => v.story_id);
+
+        return { data: ids, error: null };
+      },
+      async create(story) {
+        // Mirrors the validate_story_image trigger
+        if (story.image_url && !findOwnUpload("stories", story.image_url, story.user_id)) {
+          return { error: dataError("Story images must be files uploaded by their author", "23514") };
+        }
+
+        const createdAt = new Date();
+        insertRow("stories", {
+          ...story,
+          id: crypto.randomUUID(),
+          created_at: createdAt.toISOString(),
+          expires_at: new Date(createdAt.getTime() + STORY_LIFETIME_MS).toISOString(),
+        });
+        return { error: null };
+      },
+      async markViewed(storyId, viewerId) {
+        if (!tables.story_views.some((v) => v.story_id === storyId && v.viewer_id === viewerId)) {
+          insertRow("story_views", {
+            id: crypto.randomUUID(),
+            story_id: storyId,
+            viewer_id: viewerId,
+            viewed_at: now(),
+          });
+        }
+        return { error: null };
+      },
+    },
+
+    storage: {
+      async upload(bucket, path, file, { onProgress, signal } = {}) {
+        if (signal?.aborted) {
+          return { data: null, error: Object.assign(dataError("Upload cancelled"), { name: "AbortError" }) };
+        }
+        if (db.files.has(`${bucket}/${path}`)) {
+          return { data: null, error: dataError("The resource already exists", "409") };
+        }
+
+        // Mirrors the size limits and type allow-lists of the buckets
+        const { data: contentType, error } = await checkUpload(bucket, file);
+        if (error) return { data: null, error };
+
+        // Object URLs only live as long as the page, outside a browser the URL is only an identifier
+        const url =
+          typeof URL.createObjectURL === "function" ? URL.createObjectURL(file) : `memory://${bucket}/${path}`;
+        db.files.set(`${bucket}/${path}`, { url, contentType, size: file.size });
+        // Stored in one go
+        onProgress?.(file.size, file.size);
+        return { data: path, error: null };
+      },
+      async remove(bucket, path) {
+        const stored = db.files.get(`${bucket}/${path}`);
+        if (!stored) return { error: dataError("Object not found", "404") };
+
+        db.files.delete(`${bucket}/${path}`);
+        if (stored.url.startsWith("blob:")) URL.revokeObjectURL(stored.url);
+        return { error: null };
+      },
+      getPublicUrl(bucket, path) {
+        return db.files.get(`${bucket}/${path}`)?.url || `memory://${bucket}/${path}`;
+      },
+      async createSignedUrl(bucket, path) {
+        const url = db.files.get(`${bucket}/${path}`)?.url;
+        // Mirrors the storage read policies, files are stored in their uploader's folder
+        const [folder] = path.split("/");
+        const allowed =
+          bucket === "stories"
+            ? isStoryAudience(folder)
+            : folder === currentUserId() || canReadChatAttachment(path);
+
+        if (!url || !allowed) return { data: null, error: dataError("Object not found", "404") };
+        return { data: url, error: null };
+      },
+    },
+
+    realtime: {
+      channel(name) {
+        const handlers: { filter: ChangeFilter<TableName>; handler: (change: TableChange) => void }[] = [];
+        const presenceHandlers: ((presences: unknown[]) => void)[] = [];
+        const cleanups: (() => void)[] = [];
+        const presenceKey = crypto.randomUUID();
+
+        const channel: RealtimeChannel = {
+          onChange(filter, handler) {
+            handlers.push({
+              filter: filter as ChangeFilter<TableName>,
+              handler: handler as (change: TableChange) => void,
+            });
+            return channel;
+          },
+          onPresence(handler) {
+            presenceHandlers.push(handler as (presences: unknown[]) => void);
+            return channel;
+          },
+          subscribe(onSubscribed) {
+            cleanups.push(
+              bus.listen((change) => {
+                const userId = currentUserId();
+                if (!userId || !canReceive(userId, change)) return;
+
+                handlers.forEach(({ filter, handler }) => {
+                  if (matches(filter, change)) handler(change);
+                });
+              }),
+              bus.onPresence(name, () => {
+                const presences = bus.presenceState(name);
+                presenceHandlers.forEach((handler) => handler(presences));
+              })
+            );
+            setTimeout(() => onSubscribed?.(), 0);
+            return channel;
+          },
+          async track(state) {
+            bus.track(name, presenceKey, state);
+          },
+          unsubscribe() {
+            cleanups.forEach((cleanup) => cleanup());
+            bus.untrack(name, presenceKey);
+          },
+        };
+        return channel;
+      },
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { MemorySeed } from "@/lib/data/memoryRepository";
+
+const ALICE = "00000000-0000-4000-8000-000000000001";
+const BRUNO = "00000000-0000-4000-8000-000000000002";
+const CHLOE = "00000000-0000-4000-8000-000000000003";
+const CONVERSATION = "00000000-0000-4000-8000-000000000101";
+
+// Every demo account signs in with this password
+export const DEMO_PASSWORD = "demo1234";
+
+function profile(id: string, username: string, display_name: string, createdAt: string): Tables<"profiles"> {
+  return {
+    id,
+    username,
+    display_name,
+    avatar_url: null,
+    bio: null,
+    status: null,
+    is_online: false,
+    last_seen: null,
+    theme: null,
+    created_at: createdAt,
+    updated_at: createdAt,
+  };
+}
+
+// A few users, a conversation, a contact request and a story, dated relative to now
+export function createDemoSeed(): MemorySeed {
+  const at = (minutesAgo: number) => new Date(Date.now() - minutesAgo * 60 * 1000).toISOString();
+
+  const messages: [string, string, number][] = [
+    [ALICE, "Salut Bruno, tu es dispo ce soir ?", 95],
+    [BRUNO, "Oui, on se retrouve vers 19h ?", 90],
+    [ALICE, "Parfait, à tout à l'heure !", 85],
+  ];
+
+  return {
+    accounts: [
+      { email: "alice@demo.local", password: DEMO_PASSWORD, user_id: ALICE },
+      { email: "bruno@demo.local", password: DEMO_PASSWORD, user_id: BRUNO },
+      { email: "chloe@demo.local", password: DEMO_PASSWORD, user_id: CHLOE },
+    ],
+    tables: {
+      profiles: [
+        profile(ALICE, "alice", "Alice Martin", at(1440)),
+        profile(BRUNO, "bruno", "Bruno Leroy", at(1440)),
+        profile(CHLOE, "chloe", "Chloé Dubois", at(1440)),
+      ],
+      contacts: [
+        { id: "00000000-0000-4000-8000-000000000201", user_id: ALICE, contact_id: BRUNO, status: "accepted", created_at: at(1400) },
+        { id: "00000000-0000-4000-8000-000000000202", user_id: CHLOE, contact_id: ALICE, status: "pending", created_at: at(60) },
+      ],
+      conversations: [
+        {
+          id: CONVERSATION,
+          is_group: false,
+          name: null,
+          image_url: null,
+          created_by: ALICE,
+          created_at: at(100),
+          updated_at: at(85),
+        },
+      ],
+      conversation_members: [
+        { id: "00000000-0000-4000-8000-000000000301", conversation_id: CONVERSATION, user_id: ALICE, is_admin: true, joined_at: at(100) },
+        { id: "00000000-0000-4000-8000-000000000302", conversation_id: CONVERSATION, user_id: BRUNO, is_admin: false, joined_at: at(100) },
+      ],
+      messages: messages.map(([sender_id, content, minutesAgo], index) => ({
+        id: `00000000-0000-4000-8000-00000000040${index + 1}`,
+        conversation_id: CONVERSATION,
+        sender_id,
+        content,
+        message_type: "text",
+        file_url: null,
+        file_name: null,
+        payload: null,
+        reply_to_id: null,
+        edited_at: null,
+        deleted_at: null,
+        created_at: at(minutesAgo),
+        updated_at: at(minutesAgo),
+      })),
+      message_receipts: messages.map(([sender_id, , minutesAgo], index) => ({
+        id: `00000000-0000-4000-8000-00000000050${index + 1}`,
+        message_id: `00000000-0000-4000-8000-00000000040${index + 1}`,
+        conversation_id: CONVERSATION,
+        user_id: sender_id === ALICE ? BRUNO : ALICE,
+        delivered_at: at(minutesAgo),
+        // Bruno has not read the last message yet
+        read_at: index === messages.length - 1 ? null : at(minutesAgo),
+      })),
+      stories: [
+        {
+          id: "00000000-0000-4000-8000-000000000601",
+          user_id: BRUNO,
+          content: "En route pour le week-end 🚗",
+          image_url: null,
+          background_color: "#0f3460",
+          created_at: at(30),
+          expires_at: new Date(Date.now() + 23 * 60 * 60 * 1000).toISOString(),
+        },
+      ],
+    },
+  };
+}
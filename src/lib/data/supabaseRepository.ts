@@ -0,0 +1,578 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import type { RealtimeChannel as SupabaseChannel, SupabaseClient } from "@supabase/supabase-js";
+import { DetailedError, Upload } from "tus-js-client";
+import type { Database } from "@/integrations/supabase/types";
+import type {
+  AuthSession,
+  ChangeFilter,
+  Contact,
+  ConversationRow,
+  DataResult,
+  InboxRow,
+  Message,
+  MessageEdit,
+  MessageReaction,
+  MessageReceipt,
+  MessageRepository,
+  MessageSearchHit,
+  RealtimeChannel,
+  Repository,
+  Story,
+  TableChange,
+  TableName,
+} from "@/lib/data/types";
+import { checkUpload } from "@/lib/data/uploads";
+import { ATTACHMENT_KINDS } from "@/lib/messageKinds";
+
+const REACTION_SELECT = `
+  id,
+  message_id,
+  user_id,
+  emoji,
+  created_at,
+  profile:profiles(id, username, display_name, avatar_url)
+`;
+
+const RECEIPT_SELECT = "id, message_id, user_id, delivered_at, read_at";
+
+const MESSAGE_SELECT = `
+  *,
+  sender:profiles!messages_sender_id_fkey(id, username, display_name, avatar_url),
+  reply_to:messages!reply_to_id(
+    id,
+    sender_id,
+    content,
+    message_type,
+    file_url,
+    file_name,
+    payload,
+    deleted_at,
+    sender:profiles!messages_sender_id_fkey(id, username, display_name, avatar_url)
+  ),
+  attachments:message_attachments(
+    id, message_id, position, url, file_name, mime_type, size_bytes, width, height, placeholder,
+    duration_ms, waveform, poster_url, created_at
+  ),
+  reactions:message_reactions(${REACTION_SELECT}),
+  receipts:message_receipts(${RECEIPT_SELECT})
+`;
+
+const PROFILE_SUMMARY_SELECT = "id, username, display_name, avatar_url, is_online";
+
+function wrapChannel(supabase: SupabaseClient<Database>, channel: SupabaseChannel): RealtimeChannel {
+  const wrapped: RealtimeChannel = {
+    onChange<T extends TableName>({ table, event, filter }: ChangeFilter<T>, handler: (change: TableChange<T>) => void) {
+      channel.on(
+        "postgres_changes",
+        {
+          // The overloads only differ by the payload type
+          event: event as "*",
+          schema: "public",
+          table,
+          filter: filter ? `${filter.column}=eq.${filter.value}` : undefined,
+        },
+        (payload) =>
+          handler({
+            table,
+            eventType: payload.eventType,
+            new: payload.new as TableChange<T>["new"],
+            old: payload.old as TableChange<T>["old"],
+          })
+      );
+      return wrapped;
+    },
+    onPresence<P>(handler: (presences: P[]) => void) {
+      channel.on("presence", { event: "sync" }, () => {
+        handler(Object.values(channel.presenceState()).flat() as P[]);
+      });
+      return wrapped;
+    },
+    subscribe(onSubscribed) {
+      channel.subscribe((status) => {
+        if (status === "SUBSCRIBED") onSubscribed?.();
+      });
+      return wrapped;
+    },
+    async track(state) {
+      await channel.track(state);
+    },
+    unsubscribe() {
+      supabase.removeChannel(channel);
+    },
+  };
+  return wrapped;
+}
+
+// The project URL and publishable key, used by the resumable upload endpoint which the client does not wrap
+export interface SupabaseConfig {
+  url: string;
+  key: string;
+}
+
+export function createSupabaseRepository(supabase: SupabaseClient<Database>, config: SupabaseConfig): Repository {
+  const toSession = (session: { user: { id: string; email?: string } } | null): AuthSession | null =>
+    session ? { user: { id: session.user.id, email: session.user.email } } : null;
+
+  const getPage: MessageRepository["getPage"] = async (conversationId, { before, limit }) => {
+    let query = supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit);
+
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error } = await query;
+    return { data: data as Message[] | null, error };
+  };
+
+  const getNewerPage: MessageRepository["getNewerPage"] = async (conversationId, { after, limit }) => {
+    const { data, error } = await supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
+      .eq("conversation_id", conversationId)
+      .or(`created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(limit);
+    return { data: data as Message[] | null, error };
+  };
+
+  return {
+    auth: {
+      async getSession() {
+        const { data } = await supabase.auth.getSession();
+        return toSession(data.session);
+      },
+      onAuthStateChange(callback) {
+        const {
+          data: { subscription },
+        } = supabase.auth.onAuthStateChange((_event, session) => callback(toSession(session)));
+        return () => subscription.unsubscribe();
+      },
+      async signUp(email, password, username) {
+        const { error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: {
+            emailRedirectTo: `${window.location.origin}/`,
+            data: {
+              username,
+              display_name: username,
+            },
+          },
+        });
+        return { error };
+      },
+      async signIn(email, password) {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        return { error };
+      },
+      async signOut() {
+        await supabase.auth.signOut();
+      },
+    },
+
+    profiles: {
+      async get(userId) {
+        return supabase.from("profiles").select("*").eq("id", userId).maybeSingle();
+      },
+      async update(userId, updates) {
+        const { error } = await supabase.from("profiles").update(updates).eq("id", userId);
+        return { error };
+      },
+      async search({ excludeId, query, limit }) {
+        let request = supabase
+          .from("profiles")
+          .select(PROFILE_SUMMARY_SELECT)
+          .neq("id", excludeId)
+          .order("display_name");
+
+        if (query) request = request.or(`username.ilike.%${query}%,display_name.ilike.%${query}%`);
+        if (limit) request = request.limit(limit);
+
+        return request;
+      },
+    },
+
+    conversations: {
+      async getInbox(options = {}) {
+        const { data, error } = await supabase.rpc("get_inbox", {
+          _since: options.since,
+          _conversation_ids: options.conversationIds,
+        });
+        return { data: data as unknown as InboxRow[] | null, error };
+      },
+      async create({ createdBy, memberIds, isGroup, name }) {
+        const { data: conversation, error } = await supabase
+          .from("conversations")
+          .insert({ is_group: isGroup, name, created_by: createdBy })
+          .select()
+          .single();
+
+        if (error || !conversation) return { data: null, error };
+
+        const allMemberIds = [...new Set([createdBy, ...memberIds])];
+        const { error: membersError } = await supabase.from("conversation_members").insert(
+          allMemberIds.map((id) => ({
+            conversation_id: conversation.id,
+            user_id: id,
+            is_admin: id === createdBy,
+          }))
+        );
+
+        if (membersError) return { data: null, error: membersError };
+        return { data: conversation as ConversationRow, error: null };
+      },
+      async touch(conversationId) {
+        const { error } = await supabase
+          .from("conversations")
+          .update({ updated_at: new Date().toISOString() })
+          .eq("id", conversationId);
+        return { error };
+      },
+      async markMessagesDelivered() {
+        const { error } = await supabase.rpc("mark_messages_delivered");
+        return { error };
+      },
+    },
+
+    messages: {
+      async get(messageId) {
+        const { data, error } = await supabase.from("messages").select(MESSAGE_SELECT).eq("id", messageId).maybeSingle();
+        return { data: data as Message | null, error };
+      },
+      getPage,
+      getNewerPage,
+      async getPageAround(conversationId, messageId, limit) {
+        const { data: target, error } = await supabase
+          .from("messages")
+          .select(MESSAGE_SELECT)
+          .eq("conversation_id", conversationId)
+          .eq("id", messageId)
+          .maybeSingle();
+        if (!target) return { data: null, error };
+
+        const half = Math.floor(limit / 2);
+        const [older, newer] = await Promise.all([
+          getPage(conversationId, { before: target as Message, limit: half }),
+          getNewerPage(conversationId, { after: target as Message, limit: half }),
+        ]);
+        if (!older.data || !newer.data) return { data: null, error: older.error || newer.error };
+
+        return {
+          data: {
+            messages: [...older.data.reverse(), target as Message, ...newer.data],
+            hasOlder: older.data.length === half,
+            hasNewer: newer.data.length === half,
+          },
+          error: null,
+        };
+      },
+      async getChangedSince(conversationId, since, limit) {
+        const { data, error } = await supabase
+          .from("messages")
+          .select(MESSAGE_SELECT)
+          .eq("conversation_id", conversationId)
+          .gt("updated_at", since)
+          .order("updated_at", { ascending: true })
+          .limit(limit);
+        return { data: data as Message[] | null, error };
+      },
+      async getMedia(conversationId, limit) {
+        const { data, error } = await supabase
+          .from("messages")
+          .select(MESSAGE_SELECT)
+          .eq("conversation_id", conversationId)
+          .is("deleted_at", null)
+          .or(`message_type.in.(${ATTACHMENT_KINDS.join(",")}),content.ilike.*http*`)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+        return { data: data as Message[] | null, error };
+      },
+      async getReactions(messageIds) {
+        const { data, error } = await supabase.from("message_reactions").select(REACTION_SELECT).in("message_id", messageIds);
+        return { data: data as MessageReaction[] | null, error };
+      },
+      async getReaction(reactionId) {
+        const { data, error } = await supabase
+          .from("message_reactions")
+          .select(REACTION_SELECT)
+          .eq("id", reactionId)
+          .maybeSingle();
+        return { data: data as MessageReaction | null, error };
+      },
+      async getReceipts(messageIds) {
+        const { data, error } = await supabase.from("message_receipts").select(RECEIPT_SELECT).in("message_id", messageIds);
+        return { data: data as MessageReceipt[] | null, error };
+      },
+      async getHiddenIds(userId, conversationId) {
+        const { data, error } = await supabase
+          .from("hidden_messages")
+          .select("message_id, message:messages!inner(conversation_id)")
+          .eq("user_id", userId)
+          .eq("message.conversation_id", conversationId);
+        return { data: data?.map((h) => h.message_id) || null, error };
+      },
+      async getEditHistory(messageId) {
+        const { data, error } = await supabase
+          .from("message_edits")
+          .select("*")
+          .eq("message_id", messageId)
+          .order("edited_at", { ascending: false });
+        return { data: data as MessageEdit[] | null, error };
+      },
+      async search(query, { conversationId, limit }) {
+        const { data, error } = await supabase.rpc("search_messages", {
+          _query: query,
+          _conversation_id: conversationId,
+          _limit: limit,
+        });
+        return { data: data as MessageSearchHit[] | null, error };
+      },
+      async insert(message) {
+        const { error } = await supabase.rpc("send_message", {
+          _id: message.id,
+          _conversation_id: message.conversation_id,
+          _message_type: message.message_type,
+          _content: message.content,
+          _file_url: message.file_url,
+          _file_name: message.file_name,
+          _payload: message.payload,
+          _reply_to_id: message.reply_to_id,
+          _attachments: message.attachments,
+        });
+        return { error };
+      },
+      async edit(messageId, senderId, content) {
+        const { error } = await supabase
+          .from("messages")
+          .update({ content })
+          .eq("id", messageId)
+          .eq("sender_id", senderId);
+        return { error };
+      },
+      async hide(messageId, userId) {
+        const { error } = await supabase.from("hidden_messages").insert({ message_id: messageId, user_id: userId });
+        return { error };
+      },
+      async deleteForEveryone(messageId) {
+        const { error } = await supabase.rpc("delete_message_for_everyone", { _message_id: messageId });
+        return { error };
+      },
+      async react({ messageId, conversationId, userId, emoji }) {
+        const { data, error } = await supabase
+          .from("message_reactions")
+          .upsert(
+            {
+              message_id: messageId,
+              conversation_id: conversationId,
+              user_id: userId,
+              emoji,
+            },
+            { onConflict: "message_id,user_id" }
+          )
+          .select(REACTION_SELECT)
+          .single();
+        return { data: data as MessageReaction | null, error };
+      },
+      async unreact(reactionId) {
+        const { error } = await supabase.from("message_reactions").delete().eq("id", reactionId);
+        return { error };
+      },
+      async markConversationRead(conversationId) {
+        const { error } = await supabase.rpc("mark_conversation_read", { _conversation_id: conversationId });
+        return { error };
+      },
+    },
+
+    contacts: {
+      async list(userId) {
+        const [acceptedAsUser, acceptedAsContact, received, sent] = await Promise.all([
+          supabase
+            .from("contacts")
+            .select(`*, contact_profile:profiles!contacts_contact_id_fkey(${PROFILE_SUMMARY_SELECT})`)
+            .eq("user_id", userId)
+            .eq("status", "accepted"),
+          supabase
+            .from("contacts")
+            .select(`*, user_profile:profiles!contacts_user_id_fkey(${PROFILE_SUMMARY_SELECT})`)
+            .eq("contact_id", userId)
+            .eq("status", "accepted"),
+          supabase
+            .from("contacts")
+            .select(`*, user_profile:profiles!contacts_user_id_fkey(${PROFILE_SUMMARY_SELECT})`)
+            .eq("contact_id", userId)
+            .eq("status", "pending"),
+          supabase
+            .from("contacts")
+            .select(`*, contact_profile:profiles!contacts_contact_id_fkey(${PROFILE_SUMMARY_SELECT})`)
+            .eq("user_id", userId)
+            .eq("status", "pending"),
+        ]);
+
+        const error = acceptedAsUser.error || acceptedAsContact.error || received.error || sent.error;
+        if (error) return { data: null, error };
+
+        return {
+          data: {
+            contacts: [
+              ...(acceptedAsUser.data as Contact[]),
+              ...(acceptedAsContact.data as Contact[]).map((c) => ({ ...c, contact_profile: c.user_profile })),
+            ],
+            pendingReceived: received.data as Contact[],
+            pendingSent: sent.data as Contact[],
+          },
+          error: null,
+        };
+      },
+      async request(userId, contactId) {
+        const { error } = await supabase.from("contacts").insert({
+          user_id: userId,
+          contact_id: contactId,
+          status: "pending",
+        });
+        return { error };
+      },
+      async accept(contactId) {
+        const { error } = await supabase.from("contacts").update({ status: "accepted" }).eq("id", contactId);
+        return { error };
+      },
+      async remove(contactId) {
+        const { error } = await supabase.from("contacts").delete().eq("id", contactId);
+        return { error };
+      },
+    },
+
+    stories: {
+      async listActive() {
+        const { data, error } = await supabase
+          .from("stories")
+          .select(`
+            *,
+            user:profiles!stories_user_id_fkey(id, username, display_name, avatar_url)
+          `)
+          .gt("expires_at", new Date().toISOString())
+          .order("created_at", { ascending: false });
+        return { data: data as Story[] | null, error };
+      },
+      async getViewedIds(viewerId, storyIds) {
+        const { data, error } = await supabase
+          .from("story_views")
+          .select("story_id")
+          .eq("viewer_id", viewerId)
+          .in("story_id", storyIds);
+        return { data: data?.map((v) => v.story_id) || null, error };
+      },
+      async create(story) {
+        const { error } = await supabase.from("stories").insert(story);
+        return { error };
+      },
+      async markViewed(storyId, viewerId) {
+        const { error } = await supabase
+          .from("story_views")
+          .upsert({ story_id: storyId, viewer_id: viewerId }, { onConflict: "story_id,viewer_id" });
+        return { error };
+      },
+    },
+
+    storage: {
+      async upload(bucket, path, file, { onProgress, signal } = {}) {
+        // The bucket only checks the declared type, which is the one sniffed from the content
+        const { data: contentType, error: rejected } = await checkUpload(bucket, file);
+        if (rejected) return { data: null, error: rejected };
+
+        return new Promise((resolve) => {
+          const upload = new Upload(file, {
+            endpoint: `${config.url}/storage/v1/upload/resumable`,
+            // Supabase Storage requires chunks of exactly 6 MB
+            chunkSize: 6 * 1024 * 1024,
+            retryDelays: [0, 3000, 5000, 10000, 20000],
+            uploadDataDuringCreation: true,
+            removeFingerprintOnSuccess: true,
+            headers: { apikey: config.key, "x-upsert": "false" },
+            metadata: {
+              bucketName: bucket,
+              objectName: path,
+              contentType,
+              cacheControl: "3600",
+            },
+            // Long uploads can outlive an access token
+            async onBeforeRequest(request) {
+              const { data } = await supabase.auth.getSession();
+              request.setHeader("Authorization", `Bearer ${data.session?.access_token ?? config.key}`);
+            },
+            onProgress: (uploaded, total) => onProgress?.(uploaded, total),
+            onError(error) {
+              // Once the retries are exhausted offline, carry on from the last chunk when the connection is back
+              if (!navigator.onLine && !signal?.aborted) {
+                window.addEventListener("online", resume, { once: true });
+                return;
+              }
+              // Rejections by the bucket carry the same status codes as checkUpload
+              const status = error instanceof DetailedError ? error.originalResponse?.getStatus() : undefined;
+              finish({ data: null, error: status ? Object.assign(error, { code: String(status) }) : error });
+            },
+            onSuccess() {
+              verify().then(finish);
+            },
+          });
+
+          // The server checks the content in turn and removes what it refuses, answering like the bucket would
+          const verify = async (): Promise<DataResult<string>> => {
+            const { error } = await supabase.functions.invoke("verify-upload", { body: { bucket, path } });
+            if (!error) return { data: path, error: null };
+
+            const status = error instanceof FunctionsHttpError ? (error.context as Response).status : undefined;
+            return { data: null, error: status ? Object.assign(error, { code: String(status) }) : error };
+          };
+          const resume = () => upload.start();
+          const cancel = () => {
+            // Aborting offline or after the last chunk rejects, the cancel is reported below either way
+            upload.abort(true).catch(() => {});
+            finish({ data: null, error: Object.assign(new Error("Upload cancelled"), { name: "AbortError" }) });
+          };
+          const finish = (result: DataResult<string>) => {
+            window.removeEventListener("online", resume);
+            signal?.removeEventListener("abort", cancel);
+            resolve(result);
+          };
+
+          if (signal?.aborted) return cancel();
+          signal?.addEventListener("abort", cancel, { once: true });
+
+          // Uploading the same file to the same path again resumes the interrupted upload. The stored metadata
+          // may come from another account on this device, so any other object name starts a fresh upload.
+          upload.findPreviousUploads().then((previous) => {
+            const interrupted = previous.find((p) => p.metadata.bucketName === bucket && p.metadata.objectName === path);
+            if (interrupted) upload.resumeFromPreviousUpload(interrupted);
+            if (!signal?.aborted) upload.start();
+          }, (error: Error) => finish({ data: null, error }));
+        });
+      },
+      async remove(bucket, path) {
+        const { error } = await supabase.storage.from(bucket).remove([path]);
+        return { error };
+      },
+      getPublicUrl(bucket, path) {
+        return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+      },
+      async createSignedUrl(bucket, path, expiresIn) {
+        const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, expiresIn);
+        return { data: data?.signedUrl ?? null, error };
+      },
+    },
+
+    realtime: {
+      channel(name) {
+        return wrapChannel(supabase, supabase.channel(name));
+      },
+    },
+  };
+}
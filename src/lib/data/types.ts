@@ -0,0 +1,393 @@
+import type { Database, Enums, Json, Tables } from "@/integrations/supabase/types";
+
+export type TableName = keyof Database["public"]["Tables"];
+
+export interface Profile {
+  id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  status: string | null;
+  is_online: boolean | null;
+  last_seen: string | null;
+  theme: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export type ProfilePreview = Pick<Profile, "id" | "username" | "display_name" | "avatar_url">;
+
+export type ProfileSummary = ProfilePreview & Pick<Profile, "is_online">;
+
+export interface ConversationMember {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  is_admin: boolean;
+  joined_at: string;
+  profile?: ProfileSummary;
+}
+
+export type MessageKind = Enums<"message_kind">;
+
+// Shapes of the payload column, checked by message_payload_is_valid; read them through getMessageBody
+export interface LocationPayload {
+  latitude: number;
+  longitude: number;
+  label?: string;
+}
+
+export interface ContactPayload {
+  name: string;
+  phone?: string;
+  // Set when the shared contact has an account
+  user_id?: string;
+}
+
+export interface PollPayload {
+  question: string;
+  options: string[];
+  multiple?: boolean;
+}
+
+// The message preview of an inbox row
+export interface InboxMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string | null;
+  content: string | null;
+  message_type: MessageKind;
+  file_url: string | null;
+  file_name: string | null;
+  payload: Json | null;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Conversation {
+  id: string;
+  is_group: boolean;
+  name: string | null;
+  image_url: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  members?: ConversationMember[];
+  last_message?: InboxMessage | null;
+  unread_count?: number;
+  // Unread messages mentioning the user
+  unread_mention_count?: number;
+  other_user?: ProfileSummary | null;
+}
+
+export type ConversationRow = Omit<
+  Conversation,
+  "members" | "last_message" | "unread_count" | "unread_mention_count" | "other_user"
+>;
+
+export type InboxRow = ConversationRow & {
+  members: ConversationMember[];
+  last_message: InboxMessage | null;
+  unread_count: number;
+  unread_mention_count: number;
+};
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string | null;
+  content: string | null;
+  message_type: MessageKind;
+  file_url: string | null;
+  file_name: string | null;
+  payload: Json | null;
+  reply_to_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  sender?: ProfilePreview | null;
+  reply_to?: ReplyToMessage | null;
+  attachments?: MessageAttachment[];
+  reactions?: MessageReaction[];
+  receipts?: MessageReceipt[];
+  // Set while the message only exists in the local outbox
+  local_status?: "pending" | "failed";
+}
+
+export type ReplyToMessage = Pick<
+  Message,
+  "id" | "sender_id" | "content" | "message_type" | "file_url" | "file_name" | "payload" | "deleted_at" | "sender"
+>;
+
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  position: number;
+  url: string;
+  file_name: string | null;
+  mime_type: string | null;
+  size_bytes: number | null;
+  width: number | null;
+  height: number | null;
+  // Data URL of a tiny preview, shown blurred while the image loads
+  placeholder: string | null;
+  // Audio and video length, known before the file is downloaded
+  duration_ms: number | null;
+  // Voice notes: loudness bars from 0 to 100
+  waveform: number[] | null;
+  // Videos: frame shown until the video is played
+  poster_url: string | null;
+  created_at: string;
+}
+
+// An uploaded file as sent with a message, before it has a row
+export type AttachmentInfo = Pick<
+  MessageAttachment,
+  | "url"
+  | "file_name"
+  | "mime_type"
+  | "size_bytes"
+  | "width"
+  | "height"
+  | "placeholder"
+  | "duration_ms"
+  | "waveform"
+  | "poster_url"
+>;
+
+export interface MessageReaction {
+  id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+  profile?: ProfilePreview | null;
+}
+
+export interface MessageReceipt {
+  id: string;
+  message_id: string;
+  user_id: string;
+  delivered_at: string | null;
+  read_at: string | null;
+}
+
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  previous_content: string | null;
+  edited_at: string;
+}
+
+export type NewMessage = Pick<
+  Message,
+  "id" | "conversation_id" | "sender_id" | "content" | "message_type" | "file_url" | "file_name" | "payload" | "reply_to_id"
+> & { attachments: AttachmentInfo[] };
+
+// Oldest first, a stretch of the conversation away from its latest messages
+export interface MessageWindow {
+  messages: Message[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+// Matched words of the snippet are wrapped in SEARCH_MATCH_START and SEARCH_MATCH_END, see splitSnippet
+export interface MessageSearchHit {
+  id: string;
+  conversation_id: string;
+  sender_id: string | null;
+  created_at: string;
+  snippet: string;
+}
+
+export interface Contact {
+  id: string;
+  user_id: string;
+  contact_id: string;
+  status: string;
+  created_at: string;
+  contact_profile?: ProfileSummary;
+  user_profile?: ProfileSummary;
+}
+
+export interface ContactLists {
+  // Accepted contacts in both directions, contact_profile is always the other user
+  contacts: Contact[];
+  pendingReceived: Contact[];
+  pendingSent: Contact[];
+}
+
+export interface Story {
+  id: string;
+  user_id: string;
+  content: string | null;
+  image_url: string | null;
+  background_color: string | null;
+  expires_at: string;
+  created_at: string;
+  user?: ProfilePreview;
+}
+
+// Avatars are public, chat files and stories are only read through signed URLs
+export type PublicBucket = "avatars";
+export type PrivateBucket = "chat-attachments" | "stories";
+export type StorageBucket = PublicBucket | PrivateBucket;
+
+// Mirrors the fields of PostgrestError the app relies on, e.g. 23505 for duplicates
+export interface DataError extends Error {
+  code?: string;
+  hint?: string;
+}
+
+export interface DataResult<T> {
+  data: T | null;
+  error: DataError | null;
+}
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+}
+
+export interface AuthRepository {
+  getSession(): Promise<AuthSession | null>;
+  onAuthStateChange(callback: (session: AuthSession | null) => void): () => void;
+  signUp(email: string, password: string, username: string): Promise<{ error: DataError | null }>;
+  signIn(email: string, password: string): Promise<{ error: DataError | null }>;
+  signOut(): Promise<void>;
+}
+
+export interface ProfileRepository {
+  get(userId: string): Promise<DataResult<Profile>>;
+  update(userId: string, updates: Partial<Profile>): Promise<{ error: DataError | null }>;
+  // Other users ordered by name, optionally matching a username or display name
+  search(options: { excludeId: string; query?: string; limit?: number }): Promise<DataResult<ProfileSummary[]>>;
+}
+
+export interface ConversationRepository {
+  // Conversations of the current user, see the get_inbox function
+  getInbox(options?: { since?: string; conversationIds?: string[] }): Promise<DataResult<InboxRow[]>>;
+  create(options: {
+    createdBy: string;
+    memberIds: string[];
+    isGroup: boolean;
+    name: string | null;
+  }): Promise<DataResult<ConversationRow>>;
+  touch(conversationId: string): Promise<{ error: DataError | null }>;
+  markMessagesDelivered(): Promise<{ error: DataError | null }>;
+}
+
+export interface MessageRepository {
+  get(messageId: string): Promise<DataResult<Message>>;
+  // Newest first, older than the given message when set
+  getPage(conversationId: string, options: { before?: Message; limit: number }): Promise<DataResult<Message[]>>;
+  // Oldest first, newer than the given message
+  getNewerPage(conversationId: string, options: { after: Message; limit: number }): Promise<DataResult<Message[]>>;
+  // The given message with up to half the limit on each side of it
+  getPageAround(conversationId: string, messageId: string, limit: number): Promise<DataResult<MessageWindow>>;
+  // Oldest change first
+  getChangedSince(conversationId: string, since: string, limit: number): Promise<DataResult<Message[]>>;
+  // Newest first, the attachments and the messages that may hold a link, for the media gallery
+  getMedia(conversationId: string, limit: number): Promise<DataResult<Message[]>>;
+  getReactions(messageIds: string[]): Promise<DataResult<MessageReaction[]>>;
+  getReaction(reactionId: string): Promise<DataResult<MessageReaction>>;
+  getReceipts(messageIds: string[]): Promise<DataResult<MessageReceipt[]>>;
+  getHiddenIds(userId: string, conversationId: string): Promise<DataResult<string[]>>;
+  getEditHistory(messageId: string): Promise<DataResult<MessageEdit[]>>;
+  // Newest first, in the user's conversations or in the given one
+  search(query: string, options: { conversationId?: string; limit: number }): Promise<DataResult<MessageSearchHit[]>>;
+  insert(message: NewMessage): Promise<{ error: DataError | null }>;
+  edit(messageId: string, senderId: string, content: string): Promise<{ error: DataError | null }>;
+  hide(messageId: string, userId: string): Promise<{ error: DataError | null }>;
+  deleteForEveryone(messageId: string): Promise<{ error: DataError | null }>;
+  // Replaces the user's previous reaction on the message
+  react(reaction: {
+    messageId: string;
+    conversationId: string;
+    userId: string;
+    emoji: string;
+  }): Promise<DataResult<MessageReaction>>;
+  unreact(reactionId: string): Promise<{ error: DataError | null }>;
+  markConversationRead(conversationId: string): Promise<{ error: DataError | null }>;
+}
+
+export interface ContactRepository {
+  list(userId: string): Promise<DataResult<ContactLists>>;
+  request(userId: string, contactId: string): Promise<{ error: DataError | null }>;
+  accept(contactId: string): Promise<{ error: DataError | null }>;
+  remove(contactId: string): Promise<{ error: DataError | null }>;
+}
+
+export interface StoryRepository {
+  // Stories that have not expired yet, newest first
+  listActive(): Promise<DataResult<Story[]>>;
+  getViewedIds(viewerId: string, storyIds: string[]): Promise<DataResult<string[]>>;
+  create(story: Pick<Story, "user_id" | "content" | "image_url" | "background_color">): Promise<{
+    error: DataError | null;
+  }>;
+  markViewed(storyId: string, viewerId: string): Promise<{ error: DataError | null }>;
+}
+
+export interface UploadOptions {
+  // Called as bytes reach the server
+  onProgress?: (uploaded: number, total: number) => void;
+  // Aborting resolves the upload with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface StorageRepository {
+  // Resolves to the path of the stored file within the bucket, which may differ from the requested one
+  upload(bucket: StorageBucket, path: string, file: File, options?: UploadOptions): Promise<DataResult<string>>;
+  remove(bucket: StorageBucket, path: string): Promise<{ error: DataError | null }>;
+  getPublicUrl(bucket: PublicBucket, path: string): string;
+  // The URL stops working after expiresIn seconds
+  createSignedUrl(bucket: PrivateBucket, path: string, expiresIn: number): Promise<DataResult<string>>;
+}
+
+export type ChangeEvent = "INSERT" | "UPDATE" | "DELETE";
+
+// DELETE changes only carry the primary key in old, INSERT and UPDATE the full row in new
+export interface TableChange<T extends TableName = TableName> {
+  table: T;
+  eventType: ChangeEvent;
+  new: Tables<T>;
+  old: Partial<Tables<T>>;
+}
+
+export interface ChangeFilter<T extends TableName> {
+  table: T;
+  event: ChangeEvent | "*";
+  // Only equality on a column, DELETE changes cannot be filtered
+  filter?: { column: keyof Tables<T> & string; value: string };
+}
+
+export interface RealtimeChannel {
+  onChange<T extends TableName>(filter: ChangeFilter<T>, handler: (change: TableChange<T>) => void): RealtimeChannel;
+  // Called with the state every client tracks on the channel, including this one
+  onPresence<P>(handler: (presences: P[]) => void): RealtimeChannel;
+  subscribe(onSubscribed?: () => void): RealtimeChannel;
+  track(state: Record<string, unknown>): Promise<void>;
+  unsubscribe(): void;
+}
+
+export interface RealtimeRepository {
+  channel(name: string): RealtimeChannel;
+}
+
+export interface Repository {
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  conversations: ConversationRepository;
+  messages: MessageRepository;
+  contacts: ContactRepository;
+  stories: StoryRepository;
+  storage: StorageRepository;
+  realtime: RealtimeRepository;
+}
@@ -0,0 +1,105 @@
+import type { DataResult, StorageBucket } from "@/lib/data/types";
+
+const DOCX = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Mirrors the file_size_limit and allowed_mime_types of the storage buckets, and the verify-upload function
+export const UPLOAD_RULES: Record<StorageBucket, { maxBytes: number; mimeTypes: string[] }> = {
+  avatars: {
+    maxBytes: 5 * 1024 * 1024,
+    mimeTypes: ["image/jpeg", "image/png", "image/gif", "image/webp"],
+  },
+  "chat-attachments": {
+    maxBytes: 10 * 1024 * 1024,
+    mimeTypes: [
+      "image/jpeg",
+      "image/png",
+      "image/gif",
+      "image/webp",
+      "video/mp4",
+      "video/quicktime",
+      "video/webm",
+      "audio/mp4",
+      "audio/webm",
+      "audio/ogg",
+      "audio/mpeg",
+      "audio/wav",
+      "application/pdf",
+      "application/msword",
+      DOCX,
+      "text/plain",
+    ],
+  },
+  stories: {
+    maxBytes: 10 * 1024 * 1024,
+    mimeTypes: ["image/jpeg", "image/png", "image/gif", "image/webp"],
+  },
+};
+
+// Status codes of the errors returned by Supabase Storage when a bucket rejects a file
+export const FILE_TOO_LARGE = "413";
+export const UNSUPPORTED_FILE_TYPE = "415";
+// Returned before upload for images the browser cannot decode, so their metadata cannot be stripped
+export const UNREADABLE_IMAGE = "422";
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+// Mirrored by the verify-upload function, which checks uploads again on the server.
+// Containers holding several kinds of media keep the reported type when it is one of theirs, the first otherwise
+const SIGNATURES: { types: string[]; matches: (bytes: Uint8Array) => boolean }[] = [
+  { types: ["image/jpeg"], matches: (b) => startsWith(b, [0xff, 0xd8, 0xff]) },
+  { types: ["image/png"], matches: (b) => startsWith(b, [0x89, ...ascii("PNG\r\n"), 0x1a, 0x0a]) },
+  { types: ["image/gif"], matches: (b) => startsWith(b, ascii("GIF8")) },
+  { types: ["image/webp"], matches: (b) => startsWith(b, ascii("RIFF")) && startsWith(b, ascii("WEBP"), 8) },
+  { types: ["audio/wav"], matches: (b) => startsWith(b, ascii("RIFF")) && startsWith(b, ascii("WAVE"), 8) },
+  {
+    types: ["image/heic"],
+    matches: (b) => ["ftypheic", "ftypheix", "ftypmif1"].some((brand) => startsWith(b, ascii(brand), 4)),
+  },
+  { types: ["video/quicktime"], matches: (b) => startsWith(b, ascii("ftypqt"), 4) },
+  { types: ["video/mp4", "audio/mp4"], matches: (b) => startsWith(b, ascii("ftyp"), 4) },
+  { types: ["video/webm", "audio/webm"], matches: (b) => startsWith(b, [0x1a, 0x45, 0xdf, 0xa3]) },
+  { types: ["audio/ogg", "video/ogg"], matches: (b) => startsWith(b, ascii("OggS")) },
+  { types: ["audio/mpeg"], matches: (b) => startsWith(b, ascii("ID3")) || (b[0] === 0xff && (b[1] & 0xe0) === 0xe0) },
+  { types: ["application/pdf"], matches: (b) => startsWith(b, ascii("%PDF-")) },
+  { types: ["application/msword"], matches: (b) => startsWith(b, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+  // Word documents are zip archives, like many other formats
+  { types: ["application/zip", DOCX], matches: (b) => startsWith(b, [0x50, 0x4b, 0x03, 0x04]) },
+];
+
+// Control characters other than tabs and line breaks mean the file is not text
+const isText = (bytes: Uint8Array) => bytes.every((byte) => byte >= 0x20 || [0x09, 0x0a, 0x0d].includes(byte));
+
+// The type reported by the browser only comes from the file extension, the first bytes tell what the file is
+export async function sniffContentType(file: File) {
+  const bytes = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+  const type = file.type.split(";")[0];
+
+  const signature = SIGNATURES.find(({ matches }) => matches(bytes));
+  if (signature) return signature.types.includes(type) ? type : signature.types[0];
+  return isText(bytes) ? "text/plain" : "application/octet-stream";
+}
+
+// Resolves to the type the file is stored with, or the error the bucket would answer with
+export async function checkUpload(bucket: StorageBucket, file: File): Promise<DataResult<string>> {
+  const { maxBytes, mimeTypes } = UPLOAD_RULES[bucket];
+
+  if (file.size > maxBytes) {
+    return {
+      data: null,
+      error: Object.assign(new Error("The object exceeded the maximum allowed size"), { code: FILE_TOO_LARGE }),
+    };
+  }
+
+  const contentType = await sniffContentType(file);
+  if (!mimeTypes.includes(contentType)) {
+    return {
+      data: null,
+      error: Object.assign(new Error(`mime type ${contentType} is not supported`), { code: UNSUPPORTED_FILE_TYPE }),
+    };
+  }
+
+  return { data: contentType, error: null };
+}
@@ -0,0 +1,158 @@
+import { DataResult, UNREADABLE_IMAGE } from "@/lib/data";
+
+export interface ImageCompressionOptions {
+  // Longest side of the stored image, in pixels
+  maxDimension?: number;
+  // Encoder quality, between 0 and 1
+  quality?: number;
+}
+
+export const DEFAULT_IMAGE_COMPRESSION: Required<ImageCompressionOptions> = {
+  maxDimension: 2048,
+  quality: 0.82,
+};
+
+export interface PreparedImage {
+  file: File;
+  width: number;
+  height: number;
+  // Tiny blurred-up preview shown while the image loads, as a data URL
+  placeholder: string | null;
+}
+
+// Drawing these on a canvas would lose their animation or their vector sharpness
+const KEPT_AS_IS = ["image/gif", "image/svg+xml"];
+
+// Formats that may carry transparency are re-encoded as WebP, photos as JPEG
+const TRANSPARENT_TYPES = ["image/png", "image/webp"];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+// Longest side of the placeholder, must stay within the message_attachments placeholder check
+const PLACEHOLDER_SIZE = 16;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Whether the file carries EXIF, XMP or IPTC metadata. Formats not parsed here are assumed to carry some.
+async function hasMetadata(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  switch (file.type) {
+    case "image/jpeg": {
+      // APP1 holds EXIF and XMP, APP13 IPTC; the image data follows the start of scan marker
+      for (let offset = 2; offset + 4 <= bytes.length && bytes[offset] === 0xff; ) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda) return false;
+        if (marker === 0xe1 || marker === 0xed) return true;
+        offset += 2 + view.getUint16(offset + 2);
+      }
+      return false;
+    }
+    case "image/png": {
+      for (let offset = 8; offset + 8 <= bytes.length; offset += 12 + view.getUint32(offset)) {
+        if (["eXIf", "tEXt", "iTXt", "zTXt"].includes(ascii(bytes, offset + 4, 4))) return true;
+      }
+      return false;
+    }
+    case "image/webp": {
+      // Chunks are padded to an even size
+      for (let offset = 12; offset + 8 <= bytes.length; offset += 8 + view.getUint32(offset + 4, true)) {
+        if (["EXIF", "XMP "].includes(ascii(bytes, offset, 4))) return true;
+        offset += view.getUint32(offset + 4, true) % 2;
+      }
+      return false;
+    }
+    default:
+      return true;
+  }
+}
+
+export function drawToCanvas(bitmap: ImageBitmap, width: number, height: number, background?: string) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d")!;
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height);
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+}
+
+export function createPlaceholder(bitmap: ImageBitmap) {
+  const scale = PLACEHOLDER_SIZE / Math.max(bitmap.width, bitmap.height);
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  return drawToCanvas(bitmap, width, height, "#fff").toDataURL("image/jpeg", 0.6);
+}
+
+// Downscale and re-encode a photo before upload. Re-encoding drops the EXIF block, GPS position included.
+// Null for files that are not images. Images the browser cannot decode are refused rather than uploaded
+// with their metadata.
+export async function prepareImage(
+  file: File,
+  options?: ImageCompressionOptions
+): Promise<DataResult<PreparedImage | null>> {
+  if (!file.type.startsWith("image/")) return { data: null, error: null };
+
+  const { maxDimension, quality } = { ...DEFAULT_IMAGE_COMPRESSION, ...options };
+
+  let bitmap: ImageBitmap;
+  try {
+    // Applies the EXIF orientation, which would otherwise be lost along with the rest of the metadata
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    return {
+      data: null,
+      error: Object.assign(new Error("Image could not be decoded"), { code: UNREADABLE_IMAGE }),
+    };
+  }
+
+  try {
+    const placeholder = createPlaceholder(bitmap);
+
+    const original = { file, width: bitmap.width, height: bitmap.height, placeholder };
+    if (KEPT_AS_IS.includes(file.type)) return { data: original, error: null };
+
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const transparent = TRANSPARENT_TYPES.includes(file.type);
+
+    const canvas = drawToCanvas(bitmap, width, height, transparent ? undefined : "#fff");
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, transparent ? "image/webp" : "image/jpeg", quality)
+    );
+    if (!blob) {
+      return {
+        data: null,
+        error: Object.assign(new Error("Image could not be encoded"), { code: UNREADABLE_IMAGE }),
+      };
+    }
+
+    // Re-encoding can grow a small or already compressed image, which is then kept when it has nothing to strip
+    if (blob.size >= file.size && !(await hasMetadata(file))) return { data: original, error: null };
+
+    // Browsers that cannot encode WebP fall back to PNG
+    const name = `${file.name.replace(/\.[^.]+$/, "")}.${EXTENSIONS[blob.type] || "img"}`;
+    return {
+      data: {
+        file: new File([blob], name, { type: blob.type, lastModified: file.lastModified }),
+        width,
+        height,
+        placeholder,
+      },
+      error: null,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,35 @@
+import { withStore } from "@/lib/localDb";
+
+interface CacheRecord<T> {
+  key: string;
+  items: T[];
+  // Highest updated_at seen, used to fetch only what changed since
+  synced_at: string | null;
+}
+
+type CacheStore = "conversations" | "messages";
+
+// Like the outbox, the cache is best effort and silently disabled without IndexedDB
+export async function readCache<T>(store: CacheStore, key: string) {
+  try {
+    const record = await withStore<CacheRecord<T> | undefined>(store, "readonly", (s) => s.get(key));
+    return record || null;
+  } catch {
+    return null;
+  }
+}
+
+export function latestUpdatedAt(items: { updated_at: string }[]) {
+  return items.reduce<string | null>(
+    (latest, item) => (!latest || item.updated_at > latest ? item.updated_at : latest),
+    null
+  );
+}
+
+export async function writeCache<T>(store: CacheStore, key: string, items: T[], synced_at: string | null) {
+  try {
+    await withStore(store, "readwrite", (s) => s.put({ key, items, synced_at }));
+  } catch {
+    // Ignored, see readCache
+  }
+}
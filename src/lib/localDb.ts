@@ -0,0 +1,44 @@
+// IndexedDB database backing the outbox and the offline cache
+const DB_NAME = "chat-local";
+const DB_VERSION = 1;
+
+export type LocalStore = "outbox" | "conversations" | "messages";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const outbox = db.createObjectStore("outbox", { keyPath: "id" });
+        outbox.createIndex("conversation_id", "conversation_id");
+        db.createObjectStore("conversations", { keyPath: "key" });
+        db.createObjectStore("messages", { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if the database could not be opened
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export async function withStore<T>(
+  storeName: LocalStore,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
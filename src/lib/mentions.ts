@@ -0,0 +1,70 @@
+// Mentions are stored in the message text as @[name](user id), the sync_message_mentions trigger reads
+// them back to notify the mentioned members
+const MENTION_PATTERN = /@\[([^\]\n]*)\]\(([0-9a-f-]{36})\)/g;
+
+export interface Mention {
+  userId: string;
+  name: string;
+}
+
+export interface MentionPart {
+  text: string;
+  // Set for mentions, the text is then the mentioned name
+  userId?: string;
+}
+
+const escapePattern = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Brackets and line breaks would end the token early
+const tokenName = (name: string) => name.replace(/[[\]\n]/g, "").trim();
+
+export function mentionToken({ userId, name }: Mention) {
+  return `@[${tokenName(name)}](${userId})`;
+}
+
+// Plain text and mentions in order, empty text between tokens left out
+export function splitMentions(content: string): MentionPart[] {
+  const parts: MentionPart[] = [];
+  let cursor = 0;
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match.index! > cursor) parts.push({ text: content.slice(cursor, match.index) });
+    parts.push({ text: match[1], userId: match[2] });
+    cursor = match.index! + match[0].length;
+  }
+  if (cursor < content.length) parts.push({ text: content.slice(cursor) });
+  return parts;
+}
+
+// The text as typed in the composer, mentions shown as @name, with the mentions it holds
+export function decodeMentions(content: string) {
+  const mentions: Mention[] = [];
+  const text = content.replace(MENTION_PATTERN, (_, name: string, userId: string) => {
+    mentions.push({ userId, name });
+    return `@${name}`;
+  });
+  return { text, mentions };
+}
+
+export const mentionsToText = (content: string) => decodeMentions(content).text;
+
+export function mentionedUserIds(content: string | null) {
+  return content ? [...content.matchAll(MENTION_PATTERN)].map((match) => match[2]) : [];
+}
+
+// Turns the @name of the mentions picked in the composer back into tokens. Mentions whose name was
+// edited away stay plain text.
+export function encodeMentions(text: string, mentions: Mention[]) {
+  const byName = new Map(mentions.map((mention) => [mention.name, mention]));
+  const names = [...byName.keys()].filter(Boolean).sort((a, b) => b.length - a.length);
+  if (names.length === 0) return text;
+
+  // The longest names first, and never a name followed by more of a word
+  const pattern = new RegExp(`@(${names.map(escapePattern).join("|")})(?![\\p{L}\\p{N}_])`, "gu");
+  return text.replace(pattern, (_, name: string) => mentionToken(byName.get(name)!));
+}
+
+// The @ being typed right before the caret: where it starts and the name typed so far
+export function mentionQueryAt(text: string, caret: number) {
+  const match = /(?:^|\s)@([\p{L}\p{N}_.-]*)$/u.exec(text.slice(0, caret));
+  return match ? { start: caret - match[1].length - 1, query: match[1] } : null;
+}
@@ -0,0 +1,173 @@
+import type {
+  AttachmentInfo,
+  ContactPayload,
+  LocationPayload,
+  Message,
+  MessageAttachment,
+  MessageKind,
+  PollPayload,
+} from "@/lib/data";
+
+export const ATTACHMENT_KINDS = ["image", "video", "audio", "file"] as const satisfies readonly MessageKind[];
+
+export type AttachmentKind = (typeof ATTACHMENT_KINDS)[number];
+
+// Files per message, bounded by the message_attachments position check
+export const MAX_ATTACHMENTS = 10;
+
+type AttachmentBody = {
+  [K in AttachmentKind]: { kind: K; attachments: AttachmentInfo[]; caption: string | null };
+}[AttachmentKind];
+
+// A message narrowed to what its kind carries
+export type MessageBody =
+  | { kind: "text"; text: string }
+  | { kind: "system"; text: string }
+  | AttachmentBody
+  | { kind: "location"; location: LocationPayload }
+  | { kind: "contact"; contact: ContactPayload }
+  | { kind: "poll"; poll: PollPayload };
+
+export type MessageBodyOf<K extends MessageKind> = Extract<MessageBody, { kind: K }>;
+
+export type MessageColumns = Pick<Message, "message_type" | "content" | "file_url" | "file_name" | "payload"> & {
+  attachments?: (AttachmentInfo & Partial<Pick<MessageAttachment, "position">>)[];
+};
+
+export function isAttachmentKind(kind: MessageKind): kind is AttachmentKind {
+  return (ATTACHMENT_KINDS as readonly MessageKind[]).includes(kind);
+}
+
+export function attachmentKindOf(file: Pick<File, "type">): AttachmentKind {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type.startsWith("video/")) return "video";
+  if (file.type.startsWith("audio/")) return "audio";
+  return "file";
+}
+
+// An album takes the kind its files share, a mix of kinds is sent as files
+export function albumKindOf(files: Pick<File, "type">[]): AttachmentKind {
+  const kinds = new Set(files.map(attachmentKindOf));
+  return kinds.size === 1 ? [...kinds][0] : "file";
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: "string" | "boolean") => value === undefined || typeof value === type;
+
+const isFilled = (value: unknown): value is string => typeof value === "string" && value.trim() !== "";
+
+// The checks below mirror message_payload_is_valid
+function isLocationPayload(value: unknown): value is LocationPayload {
+  return (
+    isRecord(value) &&
+    typeof value.latitude === "number" &&
+    typeof value.longitude === "number" &&
+    Math.abs(value.latitude) <= 90 &&
+    Math.abs(value.longitude) <= 180 &&
+    isOptional(value.label, "string")
+  );
+}
+
+function isContactPayload(value: unknown): value is ContactPayload {
+  return (
+    isRecord(value) &&
+    isFilled(value.name) &&
+    isOptional(value.phone, "string") &&
+    isOptional(value.user_id, "string")
+  );
+}
+
+function isPollPayload(value: unknown): value is PollPayload {
+  return (
+    isRecord(value) &&
+    isFilled(value.question) &&
+    Array.isArray(value.options) &&
+    value.options.length >= 2 &&
+    value.options.length <= 12 &&
+    value.options.every(isFilled) &&
+    isOptional(value.multiple, "boolean")
+  );
+}
+
+// Messages sent before message_attachments existed only have file_url
+function getAttachments({ attachments, file_url, file_name }: MessageColumns): AttachmentInfo[] {
+  if (!attachments?.length) {
+    return [
+      {
+        url: file_url!,
+        file_name,
+        mime_type: null,
+        size_bytes: null,
+        width: null,
+        height: null,
+        placeholder: null,
+        duration_ms: null,
+        waveform: null,
+        poster_url: null,
+      },
+    ];
+  }
+  return [...attachments].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+}
+
+// Null when the row does not have the shape its kind requires, e.g. a tombstone or a kind this client does not know
+export function getMessageBody(message: MessageColumns): MessageBody | null {
+  const { message_type: kind, content, file_url, payload } = message;
+
+  switch (kind) {
+    case "text":
+    case "system":
+      return isFilled(content) && !file_url ? { kind, text: content } : null;
+    case "image":
+    case "video":
+    case "audio":
+    case "file":
+      return file_url && payload == null
+        ? { kind, attachments: getAttachments(message), caption: content?.trim() || null }
+        : null;
+    case "location":
+      return !file_url && isLocationPayload(payload) ? { kind, location: payload } : null;
+    case "contact":
+      return !file_url && isContactPayload(payload) ? { kind, contact: payload } : null;
+    case "poll":
+      return !file_url && isPollPayload(payload) ? { kind, poll: payload } : null;
+    default:
+      return null;
+  }
+}
+
+// The columns a body is stored in
+export function toMessageColumns(body: MessageBody): MessageColumns {
+  const columns: MessageColumns = {
+    message_type: body.kind,
+    content: null,
+    file_url: null,
+    file_name: null,
+    payload: null,
+  };
+
+  switch (body.kind) {
+    case "text":
+    case "system":
+      return { ...columns, content: body.text };
+    case "image":
+    case "video":
+    case "audio":
+    case "file":
+      return {
+        ...columns,
+        content: body.caption,
+        file_url: body.attachments[0]?.url ?? null,
+        file_name: body.attachments[0]?.file_name ?? null,
+        attachments: body.attachments,
+      };
+    case "location":
+      return { ...columns, payload: { ...body.location } };
+    case "contact":
+      return { ...columns, payload: { ...body.contact } };
+    case "poll":
+      return { ...columns, payload: { ...body.poll } };
+  }
+}
@@ -0,0 +1,24 @@
+// System notifications for mentions. Browsers only show the permission prompt after a user gesture, so it
+// is asked from the settings switch, which can also turn them off without revoking the permission.
+const PREFERENCE_KEY = "mention-notifications";
+
+export const notificationsSupported = () => "Notification" in window;
+
+export function notificationsEnabled() {
+  return (
+    notificationsSupported() &&
+    Notification.permission === "granted" &&
+    localStorage.getItem(PREFERENCE_KEY) !== "off"
+  );
+}
+
+// Resolves to "denied" right away once the user blocked notifications for the site
+export async function enableNotifications() {
+  const permission = await Notification.requestPermission();
+  localStorage.setItem(PREFERENCE_KEY, permission === "granted" ? "on" : "off");
+  return permission;
+}
+
+export function disableNotifications() {
+  localStorage.setItem(PREFERENCE_KEY, "off");
+}
@@ -0,0 +1,111 @@
+import { AttachmentInfo, Message, MessageKind, Repository } from "@/lib/data";
+import { withStore } from "@/lib/localDb";
+
+// A message waiting to be inserted, keyed by its client-generated id
+export interface OutboxEntry {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string | null;
+  message_type: MessageKind;
+  file_url: string | null;
+  file_name: string | null;
+  payload: Message["payload"];
+  attachments?: AttachmentInfo[];
+  reply_to_id: string | null;
+  created_at: string;
+  failed: boolean;
+}
+
+// Entries older than this are no longer sent, the storage cleanup (list_orphan_storage_objects) keeps files that
+// no message refers to for a week longer
+const OUTBOX_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Persistence is best effort: without IndexedDB (e.g. private browsing) messages are only kept in memory
+export async function getOutboxEntries(conversationId?: string) {
+  try {
+    const entries = await withStore<OutboxEntry[]>("outbox", "readonly", (store) =>
+      conversationId ? store.index("conversation_id").getAll(conversationId) : store.getAll()
+    );
+    return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  } catch {
+    return [];
+  }
+}
+
+export async function putOutboxEntry(entry: OutboxEntry) {
+  try {
+    await withStore("outbox", "readwrite", (store) => store.put(entry));
+  } catch {
+    // Ignored, see getOutboxEntries
+  }
+}
+
+export async function deleteOutboxEntry(id: string) {
+  try {
+    await withStore("outbox", "readwrite", (store) => store.delete(id));
+  } catch {
+    // Ignored, see getOutboxEntries
+  }
+}
+
+// Deliveries in progress by entry id, so overlapping flushes never insert the same message twice
+const inFlight = new Map<string, ReturnType<typeof insertOutboxEntry>>();
+
+export function deliverOutboxEntry(repository: Repository, entry: OutboxEntry) {
+  const pending =
+    inFlight.get(entry.id) || insertOutboxEntry(repository, entry).finally(() => inFlight.delete(entry.id));
+  inFlight.set(entry.id, pending);
+  return pending;
+}
+
+// Insert the message; the client-generated id makes retries idempotent
+async function insertOutboxEntry(repository: Repository, entry: OutboxEntry) {
+  // Its files may be gone, the user discards it and sends again
+  if (Date.now() - new Date(entry.created_at).getTime() > OUTBOX_LIFETIME_MS) {
+    await putOutboxEntry({ ...entry, failed: true });
+    return { error: new Error("Outbox entry expired"), failed: true };
+  }
+
+  const { error } = await repository.messages.insert({
+    id: entry.id,
+    conversation_id: entry.conversation_id,
+    sender_id: entry.sender_id,
+    content: entry.content,
+    message_type: entry.message_type,
+    file_url: entry.file_url,
+    file_name: entry.file_name,
+    payload: entry.payload ?? null,
+    attachments: entry.attachments || [],
+    reply_to_id: entry.reply_to_id,
+  });
+
+  // A unique violation means an earlier attempt already went through
+  if (error && error.code !== "23505") {
+    // Offline failures stay pending until the connection returns
+    const failed = navigator.onLine;
+    if (failed) {
+      await putOutboxEntry({ ...entry, failed });
+    }
+    return { error, failed };
+  }
+
+  await deleteOutboxEntry(entry.id);
+
+  // Update conversation updated_at
+  await repository.conversations.touch(entry.conversation_id);
+
+  return { error: null, failed: false };
+}
+
+// Deliver the user's pending entries in order, leaving failed ones for a manual retry. Messages are inserted
+// as the signed in user, so entries queued by another account on this device wait for that account.
+export async function flushOutbox(repository: Repository, senderId: string, conversationId?: string) {
+  const entries = await getOutboxEntries(conversationId);
+
+  for (const entry of entries) {
+    if (entry.failed || entry.sender_id !== senderId) continue;
+    const { error } = await deliverOutboxEntry(repository, entry);
+    if (error && !navigator.onLine) break;
+  }
+}
@@ -0,0 +1,13 @@
+// Shared TanStack Query keys, scoped by user so accounts never share cached data
+export const queryKeys = {
+  profile: (userId?: string) => ["profile", userId] as const,
+  conversations: (userId?: string) => ["conversations", userId] as const,
+  messages: (userId?: string, conversationId?: string | null) =>
+    ["messages", userId, conversationId] as const,
+  media: (userId?: string, conversationId?: string | null) => ["media", userId, conversationId] as const,
+  search: (userId?: string, conversationId?: string | null, query?: string) =>
+    ["search", userId, conversationId, query] as const,
+  stories: (userId?: string) => ["stories", userId] as const,
+  contacts: (userId?: string) => ["contacts", userId] as const,
+  signedUrl: (userId?: string, bucket?: string, path?: string | null) => ["signed-url", userId, bucket, path] as const,
+};
@@ -0,0 +1,11 @@
+// Wrap the matched words of search snippets, private use characters no message contains
+export const SEARCH_MATCH_START = "\uE000";
+export const SEARCH_MATCH_END = "\uE001";
+
+// Shorter searches match too many messages to be useful
+export const MIN_SEARCH_LENGTH = 2;
+
+// Alternating plain and matched parts of a snippet, starting with a plain one
+export function splitSnippet(snippet: string) {
+  return snippet.split(/[\uE000\uE001]/);
+}
@@ -0,0 +1,91 @@
+import { createPlaceholder, drawToCanvas } from "./images";
+
+export interface PreparedVideo {
+  // Frame shown in the message until the video is played
+  poster: File;
+  width: number;
+  height: number;
+  durationMs: number | null;
+  placeholder: string | null;
+}
+
+// Past the black frame most videos open with, halfway through shorter clips
+const POSTER_TIME_SECONDS = 1;
+
+// The bubble is 250px wide, this keeps the poster sharp on high density screens
+const POSTER_MAX_DIMENSION = 720;
+
+const POSTER_QUALITY = 0.8;
+
+// Some containers never fire their events when the codec is not supported
+const LOAD_TIMEOUT_MS = 10000;
+
+function waitFor(video: HTMLVideoElement, event: "loadeddata" | "seeked", trigger: () => void) {
+  return new Promise<void>((resolve, reject) => {
+    const done = (error?: Error) => {
+      clearTimeout(timeout);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener("error", onError);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onEvent = () => done();
+    const onError = () => done(new Error("The video could not be decoded"));
+    const timeout = setTimeout(() => done(new Error(`Timed out waiting for ${event}`)), LOAD_TIMEOUT_MS);
+
+    video.addEventListener(event, onEvent);
+    video.addEventListener("error", onError);
+    trigger();
+  });
+}
+
+// Extract the poster frame, size and duration of a video before upload.
+// Null for files that are not videos or that the browser cannot decode, which are sent without a poster.
+export async function prepareVideo(file: File): Promise<PreparedVideo | null> {
+  if (!file.type.startsWith("video/")) return null;
+
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  let bitmap: ImageBitmap | null = null;
+  try {
+    await waitFor(video, "loadeddata", () => {
+      video.src = url;
+    });
+
+    const duration = Number.isFinite(video.duration) ? video.duration : null;
+    const time = Math.min(POSTER_TIME_SECONDS, (duration ?? 0) / 2);
+    if (time > 0) {
+      await waitFor(video, "seeked", () => {
+        video.currentTime = time;
+      });
+    }
+
+    bitmap = await createImageBitmap(video);
+    const scale = Math.min(1, POSTER_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = drawToCanvas(bitmap, Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", POSTER_QUALITY));
+    if (!blob) return null;
+
+    return {
+      poster: new File([blob], `${file.name.replace(/\.[^.]+$/, "")}-poster.jpg`, { type: "image/jpeg" }),
+      width: video.videoWidth,
+      height: video.videoHeight,
+      durationMs: duration === null ? null : Math.round(duration * 1000),
+      placeholder: createPlaceholder(bitmap),
+    };
+  } catch {
+    return null;
+  } finally {
+    bitmap?.close();
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
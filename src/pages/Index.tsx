@@ -1,9 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { useConversations, Conversation } from "@/hooks/useConversations";
+import { useMentionNotifications } from "@/hooks/useMentionNotifications";
+import { useOnlinePresence } from "@/hooks/useProfile";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { MobileNav } from "@/components/layout/MobileNav";
+import { ConnectionBanner } from "@/components/layout/ConnectionBanner";
 import { ConversationList } from "@/components/chat/ConversationList";
 import { ChatView } from "@/components/chat/ChatView";
 import { NewChatDialog } from "@/components/chat/NewChatDialog";
@@ -18,11 +21,26 @@ export default function Index() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const { conversations, loading: convsLoading, createConversation } = useConversations();
+  useOnlinePresence();
 
   const [activeTab, setActiveTab] = useState<Tab>("chats");
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [showNewChat, setShowNewChat] = useState(false);
   const [isMobileViewingChat, setIsMobileViewingChat] = useState(false);
+  // Message opened from the search results, a new object each time so the same one can be opened again
+  const [messageTarget, setMessageTarget] = useState<{ conversationId: string; messageId: string } | null>(null);
+  const baseTitleRef = useRef(document.title);
+
+  const totalUnread = conversations.reduce((sum, c) => sum + (c.unread_count || 0), 0);
+
+  // Show the unread total in the browser tab
+  useEffect(() => {
+    const baseTitle = baseTitleRef.current;
+    document.title = totalUnread > 0 ? `(${totalUnread}) ${baseTitle}` : baseTitle;
+    return () => {
+      document.title = baseTitle;
+    };
+  }, [totalUnread]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -37,8 +55,16 @@ export default function Index() {
   const handleSelectConversation = (id: string) => {
     setSelectedConversationId(id);
     setIsMobileViewingChat(true);
+    setMessageTarget(null);
+  };
+
+  const handleSelectMessage = (conversationId: string, messageId: string) => {
+    handleSelectConversation(conversationId);
+    setMessageTarget({ conversationId, messageId });
   };
 
+  useMentionNotifications(conversations, selectedConversationId, handleSelectMessage);
+
   const handleBackToList = () => {
     setIsMobileViewingChat(false);
   };
@@ -55,9 +81,11 @@ export default function Index() {
 
   return (
     <div className="flex h-screen bg-background overflow-hidden">
+      <ConnectionBanner />
+
       {/* Desktop Sidebar */}
       <div className="hidden md:block">
-        <Sidebar activeTab={activeTab} onTabChange={setActiveTab} />
+        <Sidebar activeTab={activeTab} onTabChange={setActiveTab} unreadCount={totalUnread} />
       </div>
 
       {/* Main Content */}
@@ -73,6 +101,7 @@ export default function Index() {
               conversations={conversations}
               selectedId={selectedConversationId}
               onSelect={handleSelectConversation}
+              onSelectMessage={handleSelectMessage}
               onNewChat={() => setShowNewChat(true)}
             />
           )}
@@ -88,7 +117,11 @@ export default function Index() {
           }`}
         >
           {selectedConversation ? (
-            <ChatView conversation={selectedConversation} onBack={handleBackToList} />
+            <ChatView
+              conversation={selectedConversation}
+              targetMessage={messageTarget}
+              onBack={handleBackToList}
+            />
           ) : (
             <div className="hidden md:flex flex-1 items-center justify-center bg-secondary/30">
               <div className="text-center text-muted-foreground">
@@ -103,7 +136,7 @@ export default function Index() {
 
       {/* Mobile Navigation */}
       {!isMobileViewingChat && (
-        <MobileNav activeTab={activeTab} onTabChange={setActiveTab} />
+        <MobileNav activeTab={activeTab} onTabChange={setActiveTab} unreadCount={totalUnread} />
       )}
 
       {/* New Chat Dialog */}
@@ -0,0 +1,41 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Objects removed per Storage API call
+const BATCH_SIZE = 100;
+
+// Called every night by the cleanup-storage cron job, see list_orphan_storage_objects for what is removed.
+// Only the job may run it: it sends the service role key, any other caller is refused.
+Deno.serve(async (request) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (request.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+  const { data: orphans, error } = await supabase.rpc("list_orphan_storage_objects");
+  if (error) {
+    console.error("Error listing orphan files:", error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const byBucket = new Map<string, string[]>();
+  for (const { bucket_id, name } of orphans) {
+    byBucket.set(bucket_id, [...(byBucket.get(bucket_id) || []), name]);
+  }
+
+  let removed = 0;
+  for (const [bucket, names] of byBucket) {
+    for (let start = 0; start < names.length; start += BATCH_SIZE) {
+      const { data, error } = await supabase.storage.from(bucket).remove(names.slice(start, start + BATCH_SIZE));
+      // The next run picks up what failed
+      if (error) {
+        console.error(`Error removing orphan files from ${bucket}:`, error);
+        continue;
+      }
+      removed += data.length;
+    }
+  }
+
+  return Response.json({ removed });
+});
@@ -0,0 +1,111 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const DOCX = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const IMAGES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+// Mirrors UPLOAD_RULES in src/lib/data/uploads.ts
+const ALLOWED_TYPES: Record<string, string[]> = {
+  avatars: IMAGES,
+  "chat-attachments": [
+    ...IMAGES,
+    "video/mp4",
+    "video/quicktime",
+    "video/webm",
+    "audio/mp4",
+    "audio/webm",
+    "audio/ogg",
+    "audio/mpeg",
+    "audio/wav",
+    "application/pdf",
+    "application/msword",
+    DOCX,
+    "text/plain",
+  ],
+  stories: IMAGES,
+};
+
+// Bytes read from the start of the file, as by sniffContentType
+const SNIFF_BYTES = 512;
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+// Mirrors SIGNATURES in src/lib/data/uploads.ts
+const SIGNATURES: { types: string[]; matches: (bytes: Uint8Array) => boolean }[] = [
+  { types: ["image/jpeg"], matches: (b) => startsWith(b, [0xff, 0xd8, 0xff]) },
+  { types: ["image/png"], matches: (b) => startsWith(b, [0x89, ...ascii("PNG\r\n"), 0x1a, 0x0a]) },
+  { types: ["image/gif"], matches: (b) => startsWith(b, ascii("GIF8")) },
+  { types: ["image/webp"], matches: (b) => startsWith(b, ascii("RIFF")) && startsWith(b, ascii("WEBP"), 8) },
+  { types: ["audio/wav"], matches: (b) => startsWith(b, ascii("RIFF")) && startsWith(b, ascii("WAVE"), 8) },
+  {
+    types: ["image/heic"],
+    matches: (b) => ["ftypheic", "ftypheix", "ftypmif1"].some((brand) => startsWith(b, ascii(brand), 4)),
+  },
+  { types: ["video/quicktime"], matches: (b) => startsWith(b, ascii("ftypqt"), 4) },
+  { types: ["video/mp4", "audio/mp4"], matches: (b) => startsWith(b, ascii("ftyp"), 4) },
+  { types: ["video/webm", "audio/webm"], matches: (b) => startsWith(b, [0x1a, 0x45, 0xdf, 0xa3]) },
+  { types: ["audio/ogg", "video/ogg"], matches: (b) => startsWith(b, ascii("OggS")) },
+  { types: ["audio/mpeg"], matches: (b) => startsWith(b, ascii("ID3")) || (b[0] === 0xff && (b[1] & 0xe0) === 0xe0) },
+  { types: ["application/pdf"], matches: (b) => startsWith(b, ascii("%PDF-")) },
+  { types: ["application/msword"], matches: (b) => startsWith(b, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+  { types: ["application/zip", DOCX], matches: (b) => startsWith(b, [0x50, 0x4b, 0x03, 0x04]) },
+];
+
+const isText = (bytes: Uint8Array) => bytes.every((byte) => byte >= 0x20 || [0x09, 0x0a, 0x0d].includes(byte));
+
+function sniffContentType(bytes: Uint8Array, declared: string) {
+  const signature = SIGNATURES.find(({ matches }) => matches(bytes));
+  if (signature) return signature.types.includes(declared) ? declared : signature.types[0];
+  return isText(bytes) ? "text/plain" : "application/octet-stream";
+}
+
+// Called by the client after each upload. Reads the first bytes of the file, records the type they show
+// and removes files the bucket should not hold, whatever type was declared when uploading them.
+Deno.serve(async (request) => {
+  const url = Deno.env.get("SUPABASE_URL")!;
+  const userClient = createClient(url, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: request.headers.get("Authorization") ?? "" } },
+  });
+  const {
+    data: { user },
+  } = await userClient.auth.getUser();
+  if (!user) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { bucket, path } = await request.json();
+  // Uploads go to the uploader's folder
+  if (!ALLOWED_TYPES[bucket] || typeof path !== "string" || path.split("/")[0] !== user.id) {
+    return Response.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const admin = createClient(url, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { data: signed, error: signError } = await admin.storage.from(bucket).createSignedUrl(path, 60);
+  if (signError) return Response.json({ error: "Object not found" }, { status: 404 });
+
+  const response = await fetch(signed.signedUrl, { headers: { Range: `bytes=0-${SNIFF_BYTES - 1}` } });
+  if (!response.ok) return Response.json({ error: "Object could not be read" }, { status: 502 });
+
+  const bytes = new Uint8Array(await response.arrayBuffer()).slice(0, SNIFF_BYTES);
+  const declared = (response.headers.get("Content-Type") ?? "").split(";")[0];
+  const contentType = sniffContentType(bytes, declared);
+
+  if (!ALLOWED_TYPES[bucket].includes(contentType)) {
+    await admin.storage.from(bucket).remove([path]);
+    return Response.json({ error: `mime type ${contentType} is not supported` }, { status: 415 });
+  }
+
+  const { data: recorded, error } = await admin.rpc("record_verified_upload", {
+    _bucket: bucket,
+    _path: path,
+    _content_type: contentType,
+  });
+  if (error) {
+    console.error("Error recording verified upload:", error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+  if (!recorded) return Response.json({ error: "Object not found" }, { status: 404 });
+
+  return Response.json({ content_type: contentType });
+});
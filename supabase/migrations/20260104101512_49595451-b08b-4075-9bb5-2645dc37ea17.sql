@@ -0,0 +1,5 @@
+-- Add reply-to relation on messages
+ALTER TABLE public.messages
+ADD COLUMN reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_reply_to_id ON public.messages(reply_to_id);
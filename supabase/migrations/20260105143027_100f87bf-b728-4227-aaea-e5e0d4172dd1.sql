@@ -0,0 +1,54 @@
+-- Track when a message content was last edited
+ALTER TABLE public.messages ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Create message edit history table
+CREATE TABLE public.message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  previous_content TEXT,
+  edited_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_message_edits_message_id ON public.message_edits(message_id, edited_at);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Edit history is visible to members of the conversation, rows are only written by the trigger below
+CREATE POLICY "Users can view edits in their conversations" ON public.message_edits FOR SELECT TO authenticated
+  USING (message_id IN (
+    SELECT id FROM public.messages
+    WHERE conversation_id IN (SELECT conversation_id FROM public.conversation_members WHERE user_id = auth.uid())
+  ));
+
+-- Refuse edits after the edit window and record the previous content
+CREATE OR REPLACE FUNCTION public.handle_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF OLD.created_at < now() - interval '15 minutes' THEN
+      RAISE EXCEPTION 'Message edit window has expired'
+        USING ERRCODE = 'check_violation', HINT = 'edit_window_expired';
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+
+    NEW.edited_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_edit
+  BEFORE UPDATE OF content ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.handle_message_edit();
+
+-- Senders may only change the text. The other columns, edited_at and created_at included, stay out of reach
+-- so the edit window cannot be reset nor an edit hidden.
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
+GRANT UPDATE (content) ON public.messages TO authenticated;
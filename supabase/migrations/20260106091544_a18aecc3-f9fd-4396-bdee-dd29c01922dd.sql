@@ -0,0 +1,81 @@
+-- Tombstone for messages deleted for everyone
+ALTER TABLE public.messages ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Create per-user hidden messages table (delete for me)
+CREATE TABLE public.hidden_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  hidden_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(message_id, user_id)
+);
+
+ALTER TABLE public.hidden_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their hidden messages" ON public.hidden_messages FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Users can hide messages in their conversations" ON public.hidden_messages FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND message_id IN (
+      SELECT id FROM public.messages
+      WHERE conversation_id IN (SELECT conversation_id FROM public.conversation_members WHERE user_id = auth.uid())
+    )
+  );
+
+-- Deleted messages can no longer be edited, restored or given edit history. Clients cannot update deleted_at,
+-- so setting it is delete_message_for_everyone clearing the content.
+CREATE OR REPLACE FUNCTION public.handle_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message has been deleted'
+      USING ERRCODE = 'check_violation', HINT = 'message_deleted';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL AND NEW.content IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF OLD.created_at < now() - interval '15 minutes' THEN
+      RAISE EXCEPTION 'Message edit window has expired'
+        USING ERRCODE = 'check_violation', HINT = 'edit_window_expired';
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+
+    NEW.edited_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Replace a message with a tombstone for every member of the conversation
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(_message_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages
+  SET deleted_at = now(), content = NULL, file_url = NULL, file_name = NULL
+  WHERE id = _message_id AND sender_id = auth.uid() AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  DELETE FROM public.message_edits WHERE message_id = _message_id;
+END;
+$$;
+
+-- Enable realtime for hidden messages so other sessions of the same user stay in sync
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hidden_messages;
@@ -0,0 +1,46 @@
+-- Create message reactions table (one reaction per user per message)
+CREATE TABLE public.message_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  emoji TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(message_id, user_id)
+);
+
+CREATE INDEX idx_message_reactions_conversation_id ON public.message_reactions(conversation_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reactions in their conversations" ON public.message_reactions FOR SELECT TO authenticated
+  USING (conversation_id IN (SELECT conversation_id FROM public.conversation_members WHERE user_id = auth.uid()));
+CREATE POLICY "Users can react in their conversations" ON public.message_reactions FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND conversation_id IN (SELECT conversation_id FROM public.conversation_members WHERE user_id = auth.uid()));
+CREATE POLICY "Users can change their own reactions" ON public.message_reactions FOR UPDATE TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Users can remove their own reactions" ON public.message_reactions FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+-- Always derive the conversation from the reacted message so realtime filters can be trusted
+CREATE OR REPLACE FUNCTION public.set_reaction_conversation_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_message_reaction_conversation_id
+  BEFORE INSERT OR UPDATE OF message_id ON public.message_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_reaction_conversation_id();
+
+-- Enable realtime for reactions
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
@@ -0,0 +1,91 @@
+-- Create per-member delivery and read receipts
+CREATE TABLE public.message_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(message_id, user_id)
+);
+
+CREATE INDEX idx_message_receipts_conversation_user ON public.message_receipts(conversation_id, user_id);
+CREATE INDEX idx_message_receipts_user_pending ON public.message_receipts(user_id) WHERE delivered_at IS NULL;
+
+ALTER TABLE public.message_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view receipts in their conversations" ON public.message_receipts FOR SELECT TO authenticated
+  USING (conversation_id IN (SELECT conversation_id FROM public.conversation_members WHERE user_id = auth.uid()));
+CREATE POLICY "Users can update their own receipts" ON public.message_receipts FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Receipts are only marked through mark_conversation_read and mark_messages_delivered, which set the times
+REVOKE UPDATE ON public.message_receipts FROM anon, authenticated;
+
+-- Create one receipt per recipient when a message is sent
+CREATE OR REPLACE FUNCTION public.create_message_receipts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.message_receipts (message_id, conversation_id, user_id)
+  SELECT NEW.id, NEW.conversation_id, cm.user_id
+  FROM public.conversation_members cm
+  WHERE cm.conversation_id = NEW.conversation_id
+    AND cm.user_id IS DISTINCT FROM NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_created
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.create_message_receipts();
+
+-- Mark every message of a conversation as read by the caller
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.message_receipts
+  SET read_at = now(), delivered_at = COALESCE(delivered_at, now())
+  WHERE conversation_id = _conversation_id
+    AND user_id = auth.uid()
+    AND read_at IS NULL;
+$$;
+
+-- Mark every pending message as delivered to the caller
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.message_receipts
+  SET delivered_at = now()
+  WHERE user_id = auth.uid()
+    AND delivered_at IS NULL;
+$$;
+
+-- Backfill receipts for existing messages from the old shared is_read flag
+INSERT INTO public.message_receipts (message_id, conversation_id, user_id, delivered_at, read_at)
+SELECT
+  m.id,
+  m.conversation_id,
+  cm.user_id,
+  CASE WHEN m.is_read THEN m.updated_at END,
+  CASE WHEN m.is_read THEN m.updated_at END
+FROM public.messages m
+JOIN public.conversation_members cm ON cm.conversation_id = m.conversation_id
+WHERE cm.user_id IS DISTINCT FROM m.sender_id
+ON CONFLICT (message_id, user_id) DO NOTHING;
+
+ALTER TABLE public.messages DROP COLUMN is_read;
+
+-- Enable realtime for receipts
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_receipts;
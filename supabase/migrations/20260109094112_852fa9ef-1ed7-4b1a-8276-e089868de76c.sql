@@ -0,0 +1,2 @@
+-- Index used by clients to fetch only the messages changed since their last sync
+CREATE INDEX idx_messages_conversation_updated_at ON public.messages (conversation_id, updated_at);
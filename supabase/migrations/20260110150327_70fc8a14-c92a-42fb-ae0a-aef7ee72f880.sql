@@ -0,0 +1,101 @@
+-- Return the caller's inbox in one call: conversation, members, last visible message and unread count.
+-- _since limits the result to conversations that changed after a client's last sync,
+-- _conversation_ids to specific conversations.
+CREATE OR REPLACE FUNCTION public.get_inbox(
+  _since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _conversation_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  is_group BOOLEAN,
+  name TEXT,
+  image_url TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  members JSONB,
+  last_message JSONB,
+  unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.is_group,
+    c.name,
+    c.image_url,
+    c.created_by,
+    c.created_at,
+    c.updated_at,
+    (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', cm.id,
+          'conversation_id', cm.conversation_id,
+          'user_id', cm.user_id,
+          'is_admin', cm.is_admin,
+          'joined_at', cm.joined_at,
+          'profile', jsonb_build_object(
+            'id', p.id,
+            'username', p.username,
+            'display_name', p.display_name,
+            'avatar_url', p.avatar_url,
+            'is_online', p.is_online
+          )
+        ) ORDER BY cm.joined_at
+      ), '[]'::jsonb)
+      FROM public.conversation_members cm
+      JOIN public.profiles p ON p.id = cm.user_id
+      WHERE cm.conversation_id = c.id
+    ) AS members,
+    (
+      SELECT to_jsonb(m)
+      FROM public.messages m
+      WHERE m.conversation_id = c.id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.hidden_messages h
+          WHERE h.message_id = m.id AND h.user_id = auth.uid()
+        )
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    ) AS last_message,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.message_receipts r
+      JOIN public.messages m ON m.id = r.message_id
+      WHERE r.conversation_id = c.id
+        AND r.user_id = auth.uid()
+        AND r.read_at IS NULL
+        AND m.deleted_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.hidden_messages h
+          WHERE h.message_id = r.message_id AND h.user_id = auth.uid()
+        )
+    ) AS unread_count
+  FROM public.conversations c
+  JOIN public.conversation_members me ON me.conversation_id = c.id AND me.user_id = auth.uid()
+  WHERE (_conversation_ids IS NULL OR c.id = ANY(_conversation_ids))
+    AND (
+      _since IS NULL
+      OR c.updated_at > _since
+      OR me.joined_at > _since
+      OR EXISTS (
+        SELECT 1 FROM public.messages m
+        WHERE m.conversation_id = c.id AND m.updated_at > _since
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.message_receipts r
+        WHERE r.conversation_id = c.id AND r.user_id = auth.uid() AND r.read_at > _since
+      )
+    )
+  ORDER BY c.updated_at DESC;
+$$;
+
+CREATE INDEX idx_messages_conversation_created_at ON public.messages(conversation_id, created_at DESC);
+CREATE INDEX idx_message_receipts_user_unread ON public.message_receipts(conversation_id, user_id) WHERE read_at IS NULL;
+
+-- Enable realtime for members so the inbox picks up new conversations and group members
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_members;
@@ -0,0 +1,130 @@
+-- Closed set of message kinds; the client renders each kind with its own renderer
+CREATE TYPE public.message_kind AS ENUM (
+  'text',
+  'image',
+  'video',
+  'audio',
+  'file',
+  'system',
+  'location',
+  'contact',
+  'poll'
+);
+
+-- Attachments used to store the file name as content when sent without a caption. This is not an edit:
+-- on_message_edit would refuse old messages and record the file names as previous versions.
+ALTER TABLE public.messages DISABLE TRIGGER on_message_edit;
+
+UPDATE public.messages
+SET content = NULL
+WHERE message_type IN ('image', 'file') AND content IS NOT DISTINCT FROM COALESCE(file_name, 'Fichier');
+
+ALTER TABLE public.messages ENABLE TRIGGER on_message_edit;
+
+UPDATE public.messages
+SET message_type = CASE WHEN file_url IS NULL THEN 'text' ELSE 'file' END
+WHERE message_type IS NULL OR message_type NOT IN ('text', 'image', 'file');
+
+ALTER TABLE public.messages ALTER COLUMN message_type DROP DEFAULT;
+ALTER TABLE public.messages
+  ALTER COLUMN message_type TYPE public.message_kind USING message_type::public.message_kind;
+ALTER TABLE public.messages ALTER COLUMN message_type SET DEFAULT 'text';
+ALTER TABLE public.messages ALTER COLUMN message_type SET NOT NULL;
+
+-- Structured content of location, contact and poll messages
+ALTER TABLE public.messages ADD COLUMN payload JSONB;
+
+-- Per-kind shape of a message; content is the caption of attachments
+CREATE OR REPLACE FUNCTION public.message_payload_is_valid(
+  _kind public.message_kind,
+  _content TEXT,
+  _file_url TEXT,
+  _payload JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _option JSONB;
+BEGIN
+  CASE _kind
+    WHEN 'text', 'system' THEN
+      RETURN NULLIF(btrim(_content), '') IS NOT NULL AND _file_url IS NULL;
+
+    WHEN 'image', 'video', 'audio', 'file' THEN
+      RETURN _file_url IS NOT NULL AND _payload IS NULL;
+
+    WHEN 'location' THEN
+      IF _file_url IS NOT NULL OR jsonb_typeof(_payload) IS DISTINCT FROM 'object'
+        OR jsonb_typeof(_payload -> 'latitude') IS DISTINCT FROM 'number'
+        OR jsonb_typeof(_payload -> 'longitude') IS DISTINCT FROM 'number' THEN
+        RETURN false;
+      END IF;
+      RETURN (_payload ->> 'latitude')::numeric BETWEEN -90 AND 90
+        AND (_payload ->> 'longitude')::numeric BETWEEN -180 AND 180
+        AND COALESCE(jsonb_typeof(_payload -> 'label'), 'string') = 'string';
+
+    WHEN 'contact' THEN
+      IF _file_url IS NOT NULL OR jsonb_typeof(_payload) IS DISTINCT FROM 'object'
+        OR jsonb_typeof(_payload -> 'name') IS DISTINCT FROM 'string' THEN
+        RETURN false;
+      END IF;
+      RETURN btrim(_payload ->> 'name') <> ''
+        AND COALESCE(jsonb_typeof(_payload -> 'phone'), 'string') = 'string'
+        AND COALESCE(jsonb_typeof(_payload -> 'user_id'), 'string') = 'string';
+
+    WHEN 'poll' THEN
+      IF _file_url IS NOT NULL OR jsonb_typeof(_payload) IS DISTINCT FROM 'object'
+        OR jsonb_typeof(_payload -> 'question') IS DISTINCT FROM 'string'
+        OR jsonb_typeof(_payload -> 'options') IS DISTINCT FROM 'array'
+        OR btrim(_payload ->> 'question') = ''
+        OR jsonb_array_length(_payload -> 'options') NOT BETWEEN 2 AND 12
+        OR COALESCE(jsonb_typeof(_payload -> 'multiple'), 'boolean') <> 'boolean' THEN
+        RETURN false;
+      END IF;
+      FOR _option IN SELECT jsonb_array_elements(_payload -> 'options') LOOP
+        IF jsonb_typeof(_option) <> 'string' OR btrim(_option #>> '{}') = '' THEN
+          RETURN false;
+        END IF;
+      END LOOP;
+      RETURN true;
+  END CASE;
+END;
+$$;
+
+-- Tombstones have no content left to validate
+ALTER TABLE public.messages ADD CONSTRAINT messages_payload_check
+  CHECK (deleted_at IS NOT NULL OR public.message_payload_is_valid(message_type, content, file_url, payload));
+
+-- System messages have no sender, so clients that may only send as themselves cannot forge them
+ALTER TABLE public.messages ADD CONSTRAINT messages_system_sender_check
+  CHECK (message_type <> 'system' OR sender_id IS NULL);
+
+DROP POLICY "Users can send messages to their conversations" ON public.messages;
+CREATE POLICY "Users can send messages to their conversations" ON public.messages FOR INSERT TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND conversation_id IN (SELECT conversation_id FROM public.conversation_members WHERE user_id = auth.uid())
+  );
+
+-- Tombstones drop the payload too
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(_message_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages
+  SET deleted_at = now(), content = NULL, file_url = NULL, file_name = NULL, payload = NULL
+  WHERE id = _message_id AND sender_id = auth.uid() AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  DELETE FROM public.message_edits WHERE message_id = _message_id;
+END;
+$$;
@@ -0,0 +1,94 @@
+-- Files of a message, several for an album; messages.file_url keeps the first one for older clients
+CREATE TABLE public.message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  position SMALLINT NOT NULL DEFAULT 0 CHECK (position >= 0 AND position < 10),
+  url TEXT NOT NULL,
+  file_name TEXT,
+  mime_type TEXT,
+  size_bytes BIGINT CHECK (size_bytes >= 0),
+  width INTEGER CHECK (width > 0),
+  height INTEGER CHECK (height > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(message_id, position)
+);
+
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attachments in their conversations" ON public.message_attachments FOR SELECT TO authenticated
+  USING (
+    message_id IN (
+      SELECT id FROM public.messages
+      WHERE conversation_id IN (SELECT conversation_id FROM public.conversation_members WHERE user_id = auth.uid())
+    )
+  );
+CREATE POLICY "Users can attach files to their own messages" ON public.message_attachments FOR INSERT TO authenticated
+  WITH CHECK (message_id IN (SELECT id FROM public.messages WHERE sender_id = auth.uid()));
+
+-- Existing attachments become single-file albums
+INSERT INTO public.message_attachments (message_id, url, file_name)
+SELECT id, file_url, file_name
+FROM public.messages
+WHERE file_url IS NOT NULL AND deleted_at IS NULL;
+
+-- Insert a message with its attachments in one transaction, so realtime subscribers never see it without them
+CREATE OR REPLACE FUNCTION public.send_message(
+  _id UUID,
+  _conversation_id UUID,
+  _message_type public.message_kind,
+  _content TEXT DEFAULT NULL,
+  _file_url TEXT DEFAULT NULL,
+  _file_name TEXT DEFAULT NULL,
+  _payload JSONB DEFAULT NULL,
+  _reply_to_id UUID DEFAULT NULL,
+  _attachments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.messages (
+    id, conversation_id, sender_id, content, message_type, file_url, file_name, payload, reply_to_id
+  )
+  VALUES (
+    _id, _conversation_id, auth.uid(), _content, _message_type, _file_url, _file_name, _payload, _reply_to_id
+  );
+
+  INSERT INTO public.message_attachments (
+    message_id, position, url, file_name, mime_type, size_bytes, width, height
+  )
+  SELECT
+    _id,
+    a.ordinality - 1,
+    a.value ->> 'url',
+    a.value ->> 'file_name',
+    a.value ->> 'mime_type',
+    (a.value ->> 'size_bytes')::BIGINT,
+    (a.value ->> 'width')::INTEGER,
+    (a.value ->> 'height')::INTEGER
+  FROM jsonb_array_elements(_attachments) WITH ORDINALITY AS a(value, ordinality);
+END;
+$$;
+
+-- Tombstones drop the attachments too
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(_message_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages
+  SET deleted_at = now(), content = NULL, file_url = NULL, file_name = NULL, payload = NULL
+  WHERE id = _message_id AND sender_id = auth.uid() AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  DELETE FROM public.message_edits WHERE message_id = _message_id;
+  DELETE FROM public.message_attachments WHERE message_id = _message_id;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- Tiny blurred preview of an image attachment, a data URL generated by the sender before upload
+ALTER TABLE public.message_attachments
+  ADD COLUMN placeholder TEXT CHECK (placeholder LIKE 'data:image/%' AND length(placeholder) <= 4096);
+
+CREATE OR REPLACE FUNCTION public.send_message(
+  _id UUID,
+  _conversation_id UUID,
+  _message_type public.message_kind,
+  _content TEXT DEFAULT NULL,
+  _file_url TEXT DEFAULT NULL,
+  _file_name TEXT DEFAULT NULL,
+  _payload JSONB DEFAULT NULL,
+  _reply_to_id UUID DEFAULT NULL,
+  _attachments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.messages (
+    id, conversation_id, sender_id, content, message_type, file_url, file_name, payload, reply_to_id
+  )
+  VALUES (
+    _id, _conversation_id, auth.uid(), _content, _message_type, _file_url, _file_name, _payload, _reply_to_id
+  );
+
+  INSERT INTO public.message_attachments (
+    message_id, position, url, file_name, mime_type, size_bytes, width, height, placeholder
+  )
+  SELECT
+    _id,
+    a.ordinality - 1,
+    a.value ->> 'url',
+    a.value ->> 'file_name',
+    a.value ->> 'mime_type',
+    (a.value ->> 'size_bytes')::BIGINT,
+    (a.value ->> 'width')::INTEGER,
+    (a.value ->> 'height')::INTEGER,
+    a.value ->> 'placeholder'
+  FROM jsonb_array_elements(_attachments) WITH ORDINALITY AS a(value, ordinality);
+END;
+$$;
@@ -0,0 +1,103 @@
+-- Chat files and stories are only readable through short-lived signed URLs, avatars stay public
+UPDATE storage.buckets SET public = false WHERE id IN ('chat-attachments', 'stories');
+
+-- Store object paths rather than public URLs, which stop working once the buckets are private
+UPDATE public.message_attachments
+SET url = regexp_replace(url, '^.*/storage/v1/object/public/chat-attachments/', '')
+WHERE url LIKE '%/storage/v1/object/public/chat-attachments/%';
+
+UPDATE public.message_attachments
+SET poster_url = regexp_replace(poster_url, '^.*/storage/v1/object/public/chat-attachments/', '')
+WHERE poster_url LIKE '%/storage/v1/object/public/chat-attachments/%';
+
+UPDATE public.messages
+SET file_url = regexp_replace(file_url, '^.*/storage/v1/object/public/chat-attachments/', '')
+WHERE file_url LIKE '%/storage/v1/object/public/chat-attachments/%';
+
+UPDATE public.stories
+SET image_url = regexp_replace(image_url, '^.*/storage/v1/object/public/stories/', '')
+WHERE image_url LIKE '%/storage/v1/object/public/stories/%';
+
+COMMENT ON COLUMN public.message_attachments.url IS 'Object path in the chat-attachments bucket';
+COMMENT ON COLUMN public.message_attachments.poster_url IS 'Object path in the chat-attachments bucket';
+COMMENT ON COLUMN public.messages.file_url IS 'Object path in the chat-attachments bucket';
+COMMENT ON COLUMN public.stories.image_url IS 'Object path in the stories bucket';
+
+-- Looked up by the storage policy on every read
+CREATE INDEX idx_message_attachments_url ON public.message_attachments(url);
+CREATE INDEX idx_message_attachments_poster_url ON public.message_attachments(poster_url) WHERE poster_url IS NOT NULL;
+
+-- The files of a message can be read by the members of its conversation
+CREATE OR REPLACE FUNCTION public.can_read_chat_attachment(_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.message_attachments a
+    JOIN public.messages m ON m.id = a.message_id
+    JOIN public.conversation_members cm ON cm.conversation_id = m.conversation_id
+    WHERE (a.url = _path OR a.poster_url = _path)
+      AND cm.user_id = auth.uid()
+  );
+$$;
+
+-- Reading a file is granted by attaching it, so only files from the sender's own folder can be attached
+DROP POLICY "Users can attach files to their own messages" ON public.message_attachments;
+CREATE POLICY "Users can attach files to their own messages" ON public.message_attachments FOR INSERT TO authenticated
+  WITH CHECK (
+    message_id IN (SELECT id FROM public.messages WHERE sender_id = auth.uid())
+    AND (storage.foldername(url))[1] = auth.uid()::text
+    AND (poster_url IS NULL OR (storage.foldername(poster_url))[1] = auth.uid()::text)
+  );
+
+-- A story is seen by its author and by their accepted contacts, whoever sent the request
+CREATE OR REPLACE FUNCTION public.is_story_audience(_author_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _author_id = auth.uid() OR EXISTS (
+    SELECT 1
+    FROM public.contacts
+    WHERE status = 'accepted'
+      AND (
+        (user_id = _author_id AND contact_id = auth.uid())
+        OR (user_id = auth.uid() AND contact_id = _author_id)
+      )
+  );
+$$;
+
+-- Uploads go to the uploader's folder, which the read policy trusts
+DROP POLICY "Authenticated users can upload chat attachments" ON storage.objects;
+CREATE POLICY "Users can upload their own chat attachments"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Uploaders keep access to their files before the message referencing them is sent
+DROP POLICY "Anyone can view chat attachments" ON storage.objects;
+CREATE POLICY "Members can view chat attachments"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR public.can_read_chat_attachment(name)
+  )
+);
+
+-- Story files live in their author's folder
+DROP POLICY "Anyone can view stories" ON storage.objects;
+CREATE POLICY "Story audience can view stories"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'stories' AND public.is_story_audience(((storage.foldername(name))[1])::uuid));
+
+DROP POLICY "Users can view stories from contacts" ON public.stories;
+CREATE POLICY "Users can view stories from contacts"
+ON public.stories FOR SELECT TO authenticated
+USING (public.is_story_audience(user_id));
@@ -0,0 +1,180 @@
+-- Size limits and type allow-lists, mirrored by UPLOAD_RULES. The client declares the type sniffed from the
+-- content, so a renamed file is refused rather than served under the type of its extension.
+UPDATE storage.buckets
+SET file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+WHERE id = 'avatars';
+
+UPDATE storage.buckets
+SET file_size_limit = 10485760,
+  allowed_mime_types = ARRAY[
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+    'video/mp4', 'video/quicktime', 'video/webm',
+    'audio/mp4', 'audio/webm', 'audio/ogg', 'audio/mpeg', 'audio/wav',
+    'application/pdf', 'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain'
+  ]
+WHERE id = 'chat-attachments';
+
+UPDATE storage.buckets
+SET file_size_limit = 10485760,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+WHERE id = 'stories';
+
+-- Files are uploaded to their uploader's folder, so this is also who may reference them
+CREATE OR REPLACE FUNCTION public.is_own_upload(_bucket TEXT, _path TEXT, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM storage.objects
+    WHERE bucket_id = _bucket
+      AND name = _path
+      AND (storage.foldername(name))[1] = _user_id::text
+  );
+$$;
+
+-- Only called by the triggers below, which run as its owner. Over RPC it would tell whether others' files exist.
+REVOKE EXECUTE ON FUNCTION public.is_own_upload(TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Attachments point to files the sender uploaded, and take their type and size from storage rather than the client
+CREATE OR REPLACE FUNCTION public.validate_message_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sender_id UUID;
+  _metadata JSONB;
+BEGIN
+  SELECT sender_id INTO _sender_id FROM public.messages WHERE id = NEW.message_id;
+
+  SELECT o.metadata INTO _metadata
+  FROM storage.objects o
+  WHERE o.bucket_id = 'chat-attachments'
+    AND o.name = NEW.url
+    AND (storage.foldername(o.name))[1] = _sender_id::text;
+
+  IF NOT FOUND OR (NEW.poster_url IS NOT NULL AND NOT public.is_own_upload('chat-attachments', NEW.poster_url, _sender_id)) THEN
+    RAISE EXCEPTION 'Attachments must be files uploaded by the sender'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.mime_type := _metadata ->> 'mimetype';
+  NEW.size_bytes := (_metadata ->> 'size')::BIGINT;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_message_attachment
+  BEFORE INSERT OR UPDATE OF url, poster_url ON public.message_attachments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_message_attachment();
+
+CREATE OR REPLACE FUNCTION public.validate_message_file()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_own_upload('chat-attachments', NEW.file_url, NEW.sender_id) THEN
+    RAISE EXCEPTION 'Attachments must be files uploaded by the sender'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_message_file
+  BEFORE INSERT OR UPDATE OF file_url ON public.messages
+  FOR EACH ROW WHEN (NEW.file_url IS NOT NULL)
+  EXECUTE FUNCTION public.validate_message_file();
+
+CREATE OR REPLACE FUNCTION public.validate_story_image()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_own_upload('stories', NEW.image_url, NEW.user_id) THEN
+    RAISE EXCEPTION 'Story images must be files uploaded by their author'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_story_image
+  BEFORE INSERT OR UPDATE OF image_url ON public.stories
+  FOR EACH ROW WHEN (NEW.image_url IS NOT NULL)
+  EXECUTE FUNCTION public.validate_story_image();
+
+-- Looked up for every object by the cleanup
+CREATE INDEX idx_messages_file_url ON public.messages(file_url) WHERE file_url IS NOT NULL;
+CREATE INDEX idx_stories_image_url ON public.stories(image_url) WHERE image_url IS NOT NULL;
+
+-- Files no message, story or profile refers to anymore: deleted messages, replaced avatars, abandoned uploads.
+-- Recent files are left alone, they may belong to a message still waiting in a client's outbox, which stops
+-- sending entries after OUTBOX_LIFETIME_MS (src/lib/outbox.ts).
+CREATE OR REPLACE FUNCTION public.list_orphan_storage_objects(
+  _older_than INTERVAL DEFAULT INTERVAL '14 days',
+  _limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (bucket_id TEXT, name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.created_at < now() - _older_than
+    AND CASE o.bucket_id
+      WHEN 'chat-attachments' THEN
+        NOT EXISTS (SELECT 1 FROM public.message_attachments a WHERE a.url = o.name OR a.poster_url = o.name)
+        AND NOT EXISTS (SELECT 1 FROM public.messages m WHERE m.file_url = o.name)
+      WHEN 'stories' THEN
+        NOT EXISTS (SELECT 1 FROM public.stories s WHERE s.image_url = o.name)
+      -- Profiles keep the public URL of their avatar, which ends with the object name
+      WHEN 'avatars' THEN
+        NOT EXISTS (SELECT 1 FROM public.profiles p WHERE split_part(p.avatar_url, '/avatars/', 2) = o.name)
+      ELSE false
+    END
+  ORDER BY o.created_at
+  LIMIT _limit;
+$$;
+
+-- Only the cleanup function, running with the service role, lists other users' files
+REVOKE EXECUTE ON FUNCTION public.list_orphan_storage_objects(INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_orphan_storage_objects(INTERVAL, INTEGER) TO service_role;
+
+-- Objects are removed through the Storage API by the cleanup-storage function, deleting their rows would
+-- leave the files behind
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- The project URL and the service role key the function requires are read from Vault, set once per environment:
+--   SELECT vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+SELECT cron.schedule(
+  'cleanup-storage',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/cleanup-storage',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
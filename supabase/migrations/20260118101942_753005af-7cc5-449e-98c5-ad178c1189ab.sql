@@ -0,0 +1,84 @@
+-- Search ignores accents, so "ete" finds "été", and stems French and English words alike
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+CREATE TEXT SEARCH CONFIGURATION public.french_unaccent (COPY = pg_catalog.french);
+ALTER TEXT SEARCH CONFIGURATION public.french_unaccent
+  ALTER MAPPING FOR hword, hword_part, word WITH extensions.unaccent, french_stem;
+
+CREATE TEXT SEARCH CONFIGURATION public.english_unaccent (COPY = pg_catalog.english);
+ALTER TEXT SEARCH CONFIGURATION public.english_unaccent
+  ALTER MAPPING FOR hword, hword_part, word WITH extensions.unaccent, english_stem;
+
+-- Text and captions, the same expression is used by the index and by search_messages
+CREATE OR REPLACE FUNCTION public.message_search_vector(_content TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsvector('public.french_unaccent', coalesce(_content, ''))
+    || to_tsvector('public.english_unaccent', coalesce(_content, ''));
+$$;
+
+CREATE INDEX idx_messages_search ON public.messages
+  USING GIN (public.message_search_vector(content))
+  WHERE deleted_at IS NULL;
+
+-- Every word of the search, matched as a prefix so results show up while typing. Null without any word.
+CREATE OR REPLACE FUNCTION public.message_search_query(_config regconfig, _query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery(_config, string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(_query), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+-- Messages of the caller's conversations matching the search, newest first. The matched words of the
+-- snippet are wrapped in U+E000 and U+E001, characters no message contains.
+CREATE OR REPLACE FUNCTION public.search_messages(
+  _query TEXT,
+  _conversation_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  conversation_id UUID,
+  sender_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT public.message_search_query('public.french_unaccent', _query)
+      || public.message_search_query('public.english_unaccent', _query) AS query
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.created_at,
+    ts_headline(
+      'public.french_unaccent',
+      m.content,
+      search.query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', MaxWords=24, MinWords=12, MaxFragments=1'
+    )
+  FROM public.messages m, search
+  WHERE public.message_search_vector(m.content) @@ search.query
+    AND m.deleted_at IS NULL
+    AND m.message_type <> 'system'
+    AND m.conversation_id IN (SELECT cm.conversation_id FROM public.conversation_members cm WHERE cm.user_id = auth.uid())
+    AND (_conversation_id IS NULL OR m.conversation_id = _conversation_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+  ORDER BY m.created_at DESC
+  LIMIT least(_limit, 200);
+$$;
@@ -0,0 +1,226 @@
+-- Group members mentioned in a message, read from the @[name](user id) tokens of its text
+CREATE TABLE public.message_mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(message_id, user_id)
+);
+
+CREATE INDEX idx_message_mentions_conversation_user ON public.message_mentions(conversation_id, user_id);
+
+ALTER TABLE public.message_mentions ENABLE ROW LEVEL SECURITY;
+
+-- Only written by the trigger below
+CREATE POLICY "Users can view mentions in their conversations" ON public.message_mentions FOR SELECT TO authenticated
+  USING (conversation_id IN (SELECT conversation_id FROM public.conversation_members WHERE user_id = auth.uid()));
+
+-- Tokens naming someone outside the group, or the sender, mention no one. An edit replaces the mentions,
+-- deleting the message for everyone clears them.
+CREATE OR REPLACE FUNCTION public.sync_message_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.message_mentions WHERE message_id = NEW.id;
+
+  INSERT INTO public.message_mentions (message_id, conversation_id, user_id)
+  SELECT DISTINCT NEW.id, NEW.conversation_id, cm.user_id
+  FROM regexp_matches(coalesce(NEW.content, ''), '@\[[^]\n]*\]\(([0-9a-f-]{36})\)', 'g') AS token
+  JOIN public.conversation_members cm
+    ON cm.conversation_id = NEW.conversation_id AND cm.user_id::text = token[1]
+  JOIN public.conversations c ON c.id = NEW.conversation_id AND c.is_group
+  WHERE cm.user_id IS DISTINCT FROM NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_message_mentions
+  AFTER INSERT OR UPDATE OF content ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.sync_message_mentions();
+
+-- The text as shown in the app, mentions as @name
+CREATE OR REPLACE FUNCTION public.message_plain_text(_content TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT regexp_replace(_content, '@\[([^]\n]*)\]\([0-9a-f-]{36}\)', '@\1', 'g');
+$$;
+
+-- Searching finds mentioned names rather than user ids
+DROP INDEX public.idx_messages_search;
+
+CREATE OR REPLACE FUNCTION public.message_search_vector(_content TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsvector('public.french_unaccent', coalesce(public.message_plain_text(_content), ''))
+    || to_tsvector('public.english_unaccent', coalesce(public.message_plain_text(_content), ''));
+$$;
+
+CREATE INDEX idx_messages_search ON public.messages
+  USING GIN (public.message_search_vector(content))
+  WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.search_messages(
+  _query TEXT,
+  _conversation_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  conversation_id UUID,
+  sender_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT public.message_search_query('public.french_unaccent', _query)
+      || public.message_search_query('public.english_unaccent', _query) AS query
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.created_at,
+    ts_headline(
+      'public.french_unaccent',
+      public.message_plain_text(m.content),
+      search.query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', MaxWords=24, MinWords=12, MaxFragments=1'
+    )
+  FROM public.messages m, search
+  WHERE public.message_search_vector(m.content) @@ search.query
+    AND m.deleted_at IS NULL
+    AND m.message_type <> 'system'
+    AND m.conversation_id IN (SELECT cm.conversation_id FROM public.conversation_members cm WHERE cm.user_id = auth.uid())
+    AND (_conversation_id IS NULL OR m.conversation_id = _conversation_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+  ORDER BY m.created_at DESC
+  LIMIT least(_limit, 200);
+$$;
+
+-- The inbox also counts the unread messages mentioning the caller, the return type changes so the
+-- function is recreated
+DROP FUNCTION public.get_inbox(TIMESTAMP WITH TIME ZONE, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.get_inbox(
+  _since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _conversation_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  is_group BOOLEAN,
+  name TEXT,
+  image_url TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  members JSONB,
+  last_message JSONB,
+  unread_count INTEGER,
+  unread_mention_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.is_group,
+    c.name,
+    c.image_url,
+    c.created_by,
+    c.created_at,
+    c.updated_at,
+    (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', cm.id,
+          'conversation_id', cm.conversation_id,
+          'user_id', cm.user_id,
+          'is_admin', cm.is_admin,
+          'joined_at', cm.joined_at,
+          'profile', jsonb_build_object(
+            'id', p.id,
+            'username', p.username,
+            'display_name', p.display_name,
+            'avatar_url', p.avatar_url,
+            'is_online', p.is_online
+          )
+        ) ORDER BY cm.joined_at
+      ), '[]'::jsonb)
+      FROM public.conversation_members cm
+      JOIN public.profiles p ON p.id = cm.user_id
+      WHERE cm.conversation_id = c.id
+    ) AS members,
+    (
+      SELECT to_jsonb(m)
+      FROM public.messages m
+      WHERE m.conversation_id = c.id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.hidden_messages h
+          WHERE h.message_id = m.id AND h.user_id = auth.uid()
+        )
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    ) AS last_message,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.message_receipts r
+      JOIN public.messages m ON m.id = r.message_id
+      WHERE r.conversation_id = c.id
+        AND r.user_id = auth.uid()
+        AND r.read_at IS NULL
+        AND m.deleted_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.hidden_messages h
+          WHERE h.message_id = r.message_id AND h.user_id = auth.uid()
+        )
+    ) AS unread_count,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.message_mentions mm
+      JOIN public.message_receipts r ON r.message_id = mm.message_id AND r.user_id = mm.user_id
+      WHERE mm.conversation_id = c.id
+        AND mm.user_id = auth.uid()
+        AND r.read_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.hidden_messages h
+          WHERE h.message_id = mm.message_id AND h.user_id = auth.uid()
+        )
+    ) AS unread_mention_count
+  FROM public.conversations c
+  JOIN public.conversation_members me ON me.conversation_id = c.id AND me.user_id = auth.uid()
+  WHERE (_conversation_ids IS NULL OR c.id = ANY(_conversation_ids))
+    AND (
+      _since IS NULL
+      OR c.updated_at > _since
+      OR me.joined_at > _since
+      OR EXISTS (
+        SELECT 1 FROM public.messages m
+        WHERE m.conversation_id = c.id AND m.updated_at > _since
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.message_receipts r
+        WHERE r.conversation_id = c.id AND r.user_id = auth.uid() AND r.read_at > _since
+      )
+    )
+  ORDER BY c.updated_at DESC;
+$$;
@@ -0,0 +1,83 @@
+-- Files whose first bytes were checked by the verify-upload function, with the type they were found to be.
+-- Uploading straight to Storage skips the client's check and declares any type, so messages and stories
+-- only reference verified files.
+CREATE TABLE public.verified_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_id UUID REFERENCES storage.objects(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  content_type TEXT NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- No policies: written by verify-upload with the service role, read by the functions below
+ALTER TABLE public.verified_uploads ENABLE ROW LEVEL SECURITY;
+
+-- False when the object does not exist
+CREATE OR REPLACE FUNCTION public.record_verified_upload(_bucket TEXT, _path TEXT, _content_type TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH verified AS (
+    INSERT INTO public.verified_uploads (object_id, content_type)
+    SELECT o.id, _content_type
+    FROM storage.objects o
+    WHERE o.bucket_id = _bucket AND o.name = _path
+    ON CONFLICT (object_id) DO UPDATE SET content_type = EXCLUDED.content_type, verified_at = now()
+    RETURNING object_id
+  )
+  SELECT EXISTS (SELECT 1 FROM verified);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_verified_upload(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_verified_upload(TEXT, TEXT, TEXT) TO service_role;
+
+-- Files are uploaded to their uploader's folder, so this is also who may reference them, once verified
+CREATE OR REPLACE FUNCTION public.is_own_upload(_bucket TEXT, _path TEXT, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM storage.objects o
+    JOIN public.verified_uploads v ON v.object_id = o.id
+    WHERE o.bucket_id = _bucket
+      AND o.name = _path
+      AND (storage.foldername(o.name))[1] = _user_id::text
+  );
+$$;
+
+-- The type comes from the verified content rather than from what the client declared
+CREATE OR REPLACE FUNCTION public.validate_message_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sender_id UUID;
+  _content_type TEXT;
+  _metadata JSONB;
+BEGIN
+  SELECT sender_id INTO _sender_id FROM public.messages WHERE id = NEW.message_id;
+
+  SELECT v.content_type, o.metadata INTO _content_type, _metadata
+  FROM storage.objects o
+  JOIN public.verified_uploads v ON v.object_id = o.id
+  WHERE o.bucket_id = 'chat-attachments'
+    AND o.name = NEW.url
+    AND (storage.foldername(o.name))[1] = _sender_id::text;
+
+  IF NOT FOUND OR (NEW.poster_url IS NOT NULL AND NOT public.is_own_upload('chat-attachments', NEW.poster_url, _sender_id)) THEN
+    RAISE EXCEPTION 'Attachments must be files uploaded by the sender'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.mime_type := _content_type;
+  NEW.size_bytes := (_metadata ->> 'size')::BIGINT;
+  RETURN NEW;
+END;
+$$;